@@ -2,13 +2,22 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
+import Plots from "@/pages/Plots";
+import Auth from "@/pages/Auth";
+import SharedPlot from "@/pages/SharedPlot";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/plots" component={Plots} />
+      <ProtectedRoute path="/plots/:id" component={Home} />
+      <Route path="/auth" component={Auth} />
+      <Route path="/share/:token" component={SharedPlot} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -17,8 +26,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
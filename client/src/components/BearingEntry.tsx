@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { Navigation, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { type PlotGraph, type Calibration, type Units } from "@shared/schema";
+import { addRingToParcel, getRingEdgeIds, resolveRingLines } from "@shared/measurements";
+import { calculateDistance, getBoundaryLines } from "@shared/geometry";
+import { calculatePrecisionRatio, formatPrecisionRatio } from "@shared/traverse";
+import { formatAngle, formatBearing, parseBearing, traverseFromBearings } from "@/lib/utils/bearing";
+import { placeOnCanvas } from "@/lib/utils/placement";
+import { LENGTH_UNITS, formatLength, fromLengthUnit } from "@/lib/utils/units";
+import { useToast } from "@/hooks/use-toast";
+
+interface BearingRow {
+  bearing: string;
+  distance: string;
+}
+
+const emptyRows = (): BearingRow[] => Array.from({ length: 4 }, () => ({ bearing: "", distance: "" }));
+
+interface BearingEntryProps {
+  graph: PlotGraph;
+  onGraphChange: (graph: PlotGraph, label: string) => void;
+  activeParcelId: number;
+  activeHoleId: number | null;
+  ringName: string;
+  calibration: Calibration | null;
+  units: Units;
+}
+
+/**
+ * Enter a boundary as the bearings and distances written on a land
+ * certificate, one leg per row, and draw it into the active ring
+ */
+export default function BearingEntry({
+  graph,
+  onGraphChange,
+  activeParcelId,
+  activeHoleId,
+  ringName,
+  calibration,
+  units
+}: BearingEntryProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<BearingRow[]>(emptyRows);
+
+  const updateRow = (index: number, change: Partial<BearingRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...change } : row));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index));
+  };
+
+  // Rows left blank are skipped; a half-filled row is an error
+  const parseRows = () => {
+    const filled = rows.filter(row => row.bearing.trim() !== "" || row.distance.trim() !== "");
+    const legs = filled.map(row => ({
+      azimuth: parseBearing(row.bearing),
+      distance: parseFloat(row.distance)
+    }));
+
+    if (legs.some(leg => leg.azimuth === null || isNaN(leg.distance) || leg.distance <= 0)) return null;
+    return legs.map(leg => ({ azimuth: leg.azimuth!, distance: fromLengthUnit(leg.distance, units.length) }));
+  };
+
+  const handleDraw = () => {
+    const ringEdgeIds = getRingEdgeIds(graph, activeParcelId, activeHoleId);
+    if (getBoundaryLines(resolveRingLines(graph, ringEdgeIds)).length > 0) {
+      toast({
+        title: "Bidang Sudah Digambar",
+        description: `${ringName} sudah memiliki garis. Tambah bidang baru untuk memasukkan arah dan jarak.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const legs = parseRows();
+    if (!legs || legs.length < 3) {
+      toast({
+        title: "Data Tidak Valid",
+        description: "Masukkan setidaknya 3 baris dengan arah (mis. N 45°30' E atau 225°) dan jarak positif",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The ring is drawn closed through the corners, but each edge keeps its
+    // bearing, so the traverse still walks to where the last leg really ends
+    const { corners, end } = traverseFromBearings(legs);
+    onGraphChange(
+      addRingToParcel(
+        graph, activeParcelId, activeHoleId,
+        placeOnCanvas(corners, calibration),
+        legs.map(leg => leg.distance),
+        legs.map(leg => leg.azimuth)
+      ),
+      "Input arah dan jarak"
+    );
+    setRows(emptyRows());
+    
+    const misclosure = calculateDistance(end, corners[0]);
+    const perimeter = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    toast({
+      title: `${ringName} Digambar`,
+      description: `Salah penutup ${formatLength(misclosure, units.length, 3)}, ketelitian ${formatPrecisionRatio(calculatePrecisionRatio(perimeter, misclosure))}`
+    });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Navigation className="h-4 w-4 mr-2" />
+          Arah & Jarak
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-[1.5rem_1fr_6rem_2rem] gap-2 items-center text-xs text-gray-500 mb-1">
+          <span>#</span>
+          <span>Arah</span>
+          <span>Jarak ({LENGTH_UNITS[units.length].symbol})</span>
+          <span />
+        </div>
+
+        <div className="space-y-2">
+          {rows.map((row, index) => {
+            const azimuth = parseBearing(row.bearing);
+            const isInvalid = row.bearing.trim() !== "" && azimuth === null;
+
+            return (
+              <div key={index}>
+                <div className="grid grid-cols-[1.5rem_1fr_6rem_2rem] gap-2 items-center">
+                  <span className="text-sm text-gray-600">{index + 1}</span>
+                  <Input
+                    value={row.bearing}
+                    onChange={(e) => updateRow(index, { bearing: e.target.value })}
+                    placeholder="N 45°30' E"
+                    className={`h-8 text-sm ${isInvalid ? "border-red-500" : ""}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.distance}
+                    onChange={(e) => updateRow(index, { distance: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeRow(index)}
+                    className="h-8 w-8 text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {azimuth !== null && (
+                  <p className="text-xs text-gray-500 ml-8 mt-0.5">
+                    Azimut {formatAngle(azimuth)} · {formatBearing(azimuth)}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-gray-500 mt-2">
+          Arah kuadran (N 45°30' E, U 45 T) atau azimut (225°30'15"). Baris terakhir seharusnya kembali ke titik awal; selisihnya adalah salah penutup.
+        </p>
+
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setRows([...rows, { bearing: "", distance: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Tambah Baris
+          </Button>
+          <Button onClick={handleDraw}>
+            Gambar {ringName}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
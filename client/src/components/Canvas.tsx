@@ -1,67 +1,276 @@
 import { useState, useRef, useEffect, useMemo } from "react";
 import { 
-  Trash2, Undo, ZoomIn, ZoomOut, Info, 
+  Trash2, Undo, Redo, ZoomIn, ZoomOut, Info, 
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { type Point, type Line } from "@shared/schema";
-import { calculatePolygonArea, extractVerticesFromLines } from "@/lib/utils/area";
+import { 
+  type Point, type Line, type Vertex, type LineKind, type PlotGraph, type Calibration, type Units 
+} from "@shared/schema";
+import { 
+  addEdgeToParcel, moveVertex, nextId, resolveLines, resolveParcelLines, resolveRingLines 
+} from "@shared/measurements";
+import { 
+  calculateCentroid,
+  calculateDistance, 
+  extractVerticesFromLines,
+  getBoundaryLines
+} from "@shared/geometry";
+import { formatLength } from "@/lib/utils/units";
+import { diffGraphs } from "@/lib/utils/diff";
+import { type TopologyIssue } from "@/lib/utils/topology";
+import { type GeoTransform } from "@/lib/utils/georeference";
+import { formatUtmZone } from "@shared/projection";
+
+export type DrawingTool = "line" | "polygon" | "diagonal" | "calibrate";
+
+const TOOL_INSTRUCTIONS: Record<DrawingTool, string> = {
+  line: "Click to place points and create measurement lines. Drag points to adjust.",
+  polygon: "Click to place corners. Click the first corner or double-click to close the polygon.",
+  diagonal: "Drag from one corner to another to add a diagonal tie line.",
+  calibrate: "Draw a line over a feature of known length, then enter its true length."
+};
+
+// How close (in pixels) the cursor must be to a corner to snap onto it
+const SNAP_RADIUS = 10;
 
 interface CanvasProps {
-  lines: Line[];
-  onLinesChange: (lines: Line[]) => void;
+  graph: PlotGraph;
+  onGraphChange: (graph: PlotGraph, label: string, coalesceKey?: string) => void;
+  activeParcelId: number;
+  activeHoleId: number | null;
   backgroundImage: string | null;
-  activeTool: "line" | "polygon";
+  activeTool: DrawingTool;
   defaultLength: number;
-  scale: number;
+  calibration: Calibration | null;
+  onCalibrationChange: (calibration: Calibration) => void;
+  units: Units;
+  // Earlier version of the plot to show the changes against
+  compareTo: PlotGraph | null;
+  topologyIssues: TopologyIssue[];
+  // Where the canvas lies on the earth, once any vertex has been pinned
+  geoTransform: GeoTransform | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 export default function Canvas({ 
-  lines, 
-  onLinesChange, 
+  graph, 
+  onGraphChange, 
+  activeParcelId,
+  activeHoleId,
   backgroundImage, 
   activeTool,
   defaultLength,
-  scale
+  calibration,
+  onCalibrationChange,
+  units,
+  compareTo,
+  topologyIssues,
+  geoTransform,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo
 }: CanvasProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentLine, setCurrentLine] = useState<Partial<Line> | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [dragPoint, setDragPoint] = useState<{ lineId: number, isStart: boolean } | null>(null);
+  const [dragVertexId, setDragVertexId] = useState<number | null>(null);
+  // Counts drags so each one becomes a single history entry
+  const dragCountRef = useRef(0);
   const [zoom, setZoom] = useState(1);
+  // Vertices placed so far with the polygon tool, and the cursor for the preview edge
+  const [polygonPoints, setPolygonPoints] = useState<Point[]>([]);
+  const [cursorPoint, setCursorPoint] = useState<Point | null>(null);
+  // Where the mouse is over the canvas, for the coordinate readout
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  
+  // Edges resolved to their corner positions
+  const lines = useMemo(() => resolveLines(graph), [graph]);
+  
+  // Create a polygon for each parcel, with a spot to put its name
+  const parcelPolygons = useMemo(() => {
+    return graph.parcels.flatMap(parcel => {
+      const parcelLines = resolveParcelLines(graph, parcel);
+      if (getBoundaryLines(parcelLines).length < 3) return [];
+      
+      const vertices = extractVerticesFromLines(parcelLines);
+      
+      return [{
+        parcel,
+        points: vertices.map(point => `${point.x},${point.y}`).join(' '),
+        labelPoint: calculateCentroid(vertices)
+      }];
+    });
+  }, [graph]);
   
-  // Create polygon from lines
-  const polygon = useMemo(() => {
-    if (lines.length < 3) return null;
+  // Holes drawn inside parcels, and the edges around them
+  const holePolygons = useMemo(() => {
+    return graph.parcels.flatMap(parcel => parcel.holes.flatMap(hole => {
+      const holeLines = resolveRingLines(graph, hole.edgeIds);
+      if (getBoundaryLines(holeLines).length < 3) return [];
+      
+      const vertices = extractVerticesFromLines(holeLines);
+      return [{
+        key: `${parcel.id}-${hole.id}`,
+        points: vertices.map(point => `${point.x},${point.y}`).join(' ')
+      }];
+    }));
+  }, [graph]);
+  
+  const holeEdgeIds = useMemo(() => {
+    return new Set(graph.parcels.flatMap(parcel => parcel.holes.flatMap(hole => hole.edgeIds)));
+  }, [graph]);
+  
+  // Edges involved in a topology problem, drawn over in red
+  const problemLines = useMemo(() => {
+    const edgeIds = new Set(topologyIssues.flatMap(issue => issue.edgeIds));
+    return lines.filter(line => edgeIds.has(line.id));
+  }, [lines, topologyIssues]);
+  
+  // What changed since the revision being compared against
+  const comparison = useMemo(() => {
+    if (!compareTo) return null;
+    return { previousLines: resolveLines(compareTo), diff: diffGraphs(compareTo, graph) };
+  }, [compareTo, graph]);
+  
+  // Find the corner closest to a point within the snap radius
+  const findNearestVertex = (vertices: Vertex[], point: Point): Vertex | null => {
+    let nearest: Vertex | null = null;
+    let nearestDistance = SNAP_RADIUS;
     
-    const vertices = extractVerticesFromLines(lines);
-    return vertices.map(point => `${point.x},${point.y}`).join(' ');
-  }, [lines]);
+    for (const vertex of vertices) {
+      const distance = calculateDistance(vertex, point);
+      if (distance < nearestDistance) {
+        nearest = vertex;
+        nearestDistance = distance;
+      }
+    }
+    
+    return nearest;
+  };
+  
+  // Find the corner at a point, or add a new one there
+  const withVertexAt = (current: PlotGraph, point: Point): [PlotGraph, number] => {
+    const existing = findNearestVertex(current.vertices, point);
+    if (existing) return [current, existing.id];
+    
+    const vertex: Vertex = { id: nextId(current.vertices), x: point.x, y: point.y };
+    return [{ ...current, vertices: [...current.vertices, vertex] }, vertex.id];
+  };
+  
+  // Add an edge between the corners at two points to the active parcel.
+  // Corners are shared, and an edge already drawn between the same corners
+  // (say, by a neighbouring parcel) is reused rather than duplicated.
+  const connectPoints = (startPoint: Point, endPoint: Point, kind: LineKind): PlotGraph => {
+    const [withStart, startVertexId] = withVertexAt(graph, startPoint);
+    const [withEnd, endVertexId] = withVertexAt(withStart, endPoint);
+    if (startVertexId === endVertexId) return graph;
+    
+    const existing = withEnd.edges.find(edge =>
+      edge.kind === kind && (
+        (edge.startVertexId === startVertexId && edge.endVertexId === endVertexId) ||
+        (edge.startVertexId === endVertexId && edge.endVertexId === startVertexId)
+      )
+    );
+    if (existing) return addEdgeToParcel(withEnd, activeParcelId, existing.id, activeHoleId);
+    
+    const edgeId = nextId(withEnd.edges);
+    return addEdgeToParcel({
+      ...withEnd,
+      edges: [...withEnd.edges, {
+        id: edgeId,
+        startVertexId,
+        endVertexId,
+        length: defaultLength,
+        kind,
+        manualLength: false
+      }]
+    }, activeParcelId, edgeId, activeHoleId);
+  };
+  
+  // Convert a mouse event to canvas coordinates
+  const getCanvasPoint = (e: React.MouseEvent): Point | null => {
+    const svgElement = svgRef.current;
+    if (!svgElement) return null;
+    
+    const rect = svgElement.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / zoom,
+      y: (e.clientY - rect.top) / zoom
+    };
+  };
+  
+  // Place a vertex with the polygon tool. Each new edge starts exactly where
+  // the previous one ended; clicking the first vertex closes the polygon.
+  const placePolygonPoint = (point: Point) => {
+    const snapped = findNearestVertex(graph.vertices, point) || point;
+    
+    if (polygonPoints.length === 0) {
+      setPolygonPoints([{ x: snapped.x, y: snapped.y }]);
+      return;
+    }
+    
+    const firstPoint = polygonPoints[0];
+    const lastPoint = polygonPoints[polygonPoints.length - 1];
+    
+    // The second click of a double-click lands on the last vertex
+    if (calculateDistance(snapped, lastPoint) < SNAP_RADIUS) return;
+    
+    if (polygonPoints.length >= 3 && calculateDistance(snapped, firstPoint) < SNAP_RADIUS) {
+      closePolygon();
+      return;
+    }
+    
+    onGraphChange(connectPoints(lastPoint, snapped, "boundary"), "Tambah garis");
+    setPolygonPoints([...polygonPoints, { x: snapped.x, y: snapped.y }]);
+  };
+  
+  // A corner under the cursor shows its own position rather than the cursor's
+  const hoveredVertex = hoverPoint ? findNearestVertex(graph.vertices, hoverPoint) : null;
+  const hoverUtm = hoverPoint && geoTransform ? geoTransform.toUtm(hoveredVertex ?? hoverPoint) : null;
+  const hoverGeo = hoverPoint && geoTransform ? geoTransform.toGeo(hoveredVertex ?? hoverPoint) : null;
+  
+  // Add the closing edge back to the first vertex and finish the polygon
+  const closePolygon = () => {
+    if (polygonPoints.length >= 3) {
+      onGraphChange(connectPoints(polygonPoints[polygonPoints.length - 1], polygonPoints[0], "boundary"), "Tutup poligon");
+    }
+    
+    setPolygonPoints([]);
+  };
   
   // Handle canvas click to start drawing a line
   const handleCanvasMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
     if (isDragging) return;
     
+    // Diagonals can only start on an existing corner
+    if (activeTool === "diagonal") return;
+    
     // Only handle clicks directly on the SVG or background rect
     if (
       e.target instanceof SVGSVGElement || 
       (e.target instanceof SVGRectElement && e.target.getAttribute('fill')?.includes('grid'))
     ) {
-      const svgElement = svgRef.current;
-      if (!svgElement) return;
+      const point = getCanvasPoint(e);
+      if (!point) return;
       
-      const rect = svgElement.getBoundingClientRect();
-      const x = (e.clientX - rect.left) / zoom;
-      const y = (e.clientY - rect.top) / zoom;
+      if (activeTool === "polygon") {
+        placePolygonPoint(point);
+        return;
+      }
       
+      const { x, y } = point;
       setIsDrawing(true);
       
       // Start a new line
       const newLine: Partial<Line> = {
-        id: lines.length + 1,
         startPoint: { x, y },
-        length: defaultLength
+        kind: "boundary"
       };
       
       setCurrentLine(newLine);
@@ -70,70 +279,81 @@ export default function Canvas({
   
   // Handle mouse move when drawing a line
   const handleCanvasMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
-    const svgElement = svgRef.current;
-    if (!svgElement) return;
+    const point = getCanvasPoint(e);
+    if (!point) return;
     
-    const rect = svgElement.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / zoom;
-    const y = (e.clientY - rect.top) / zoom;
+    const { x, y } = point;
+    setHoverPoint(point);
     
-    if (isDrawing && currentLine) {
+    if (activeTool === "polygon" && polygonPoints.length > 0) {
+      // Rubber-band preview from the last vertex to the cursor
+      setCursorPoint(point);
+    } else if (isDrawing && currentLine) {
       // Update the end point of the current line
       setCurrentLine({
         ...currentLine,
         endPoint: { x, y }
       });
       
-    } else if (isDragging && dragPoint) {
-      // Find the line being dragged
-      const lineIndex = lines.findIndex(line => line.id === dragPoint.lineId);
-      if (lineIndex === -1) return;
-      
-      // Create a copy of the lines array
-      const newLines = [...lines];
-      
-      // Update the point that's being dragged
-      if (dragPoint.isStart) {
-        newLines[lineIndex] = {
-          ...newLines[lineIndex],
-          startPoint: { x, y }
-        };
-      } else {
-        newLines[lineIndex] = {
-          ...newLines[lineIndex],
-          endPoint: { x, y }
-        };
-      }
-      
-      onLinesChange(newLines);
+    } else if (isDragging && dragVertexId !== null) {
+      // Moving the shared corner moves every edge that touches it
+      onGraphChange(moveVertex(graph, dragVertexId, { x, y }), "Geser titik", `drag-${dragCountRef.current}`);
     }
   };
   
   // Finish drawing a line or end dragging
   const handleCanvasMouseUp = () => {
-    if (isDrawing && currentLine && currentLine.startPoint && currentLine.endPoint) {
-      // Finish the current line and add it to the lines array
-      const newLine: Line = {
-        id: currentLine.id || Date.now(),
+    if (isDrawing && currentLine && currentLine.startPoint && currentLine.endPoint && activeTool === "calibrate") {
+      // The reference line keeps its true length; only its pixel span changes
+      onCalibrationChange({
         startPoint: currentLine.startPoint,
         endPoint: currentLine.endPoint,
-        length: currentLine.length || defaultLength
-      };
+        length: calibration?.length ?? defaultLength
+      });
+      setCurrentLine(null);
+    } else if (isDrawing && currentLine && currentLine.startPoint && currentLine.endPoint) {
+      const kind = currentLine.kind || "boundary";
+      
+      // A diagonal must end on an existing corner; line ends snap to nearby corners
+      const endPoint = kind === "diagonal"
+        ? findNearestVertex(graph.vertices, currentLine.endPoint)
+        : currentLine.endPoint;
+      
+      if (endPoint) {
+        onGraphChange(
+          connectPoints(currentLine.startPoint, endPoint, kind),
+          kind === "diagonal" ? "Tambah diagonal" : "Tambah garis"
+        );
+      }
       
-      onLinesChange([...lines, newLine]);
       setCurrentLine(null);
     }
     
     setIsDrawing(false);
     setIsDragging(false);
-    setDragPoint(null);
+    setDragVertexId(null);
   };
   
-  // Handle starting to drag a point
-  const handlePointMouseDown = (e: React.MouseEvent, lineId: number, isStart: boolean) => {
+  // Handle starting to drag a corner, or starting a diagonal from it
+  const handleVertexMouseDown = (e: React.MouseEvent, vertex: Vertex) => {
     e.stopPropagation();
+    const point = { x: vertex.x, y: vertex.y };
+    
+    // The polygon tool places its next vertex on the clicked corner
+    if (activeTool === "polygon") {
+      placePolygonPoint(point);
+      return;
+    }
+    
+    if (activeTool === "diagonal") {
+      setIsDrawing(true);
+      setCurrentLine({ startPoint: point, kind: "diagonal" });
+      return;
+    }
+    
+    dragCountRef.current += 1;
     setIsDragging(true);
-    setDragPoint({ lineId, isStart });
+    setDragVertexId(vertex.id);
   };
   
   // Handle zoom in
@@ -146,18 +366,40 @@ export default function Canvas({
     setZoom(prev => Math.max(prev - 0.1, 0.5));
   };
   
-  // Handle undo (remove last line)
-  const handleUndo = () => {
-    if (lines.length > 0) {
-      onLinesChange(lines.slice(0, -1));
-    }
-  };
-  
   // Handle clear all lines
   const handleClearAll = () => {
-    onLinesChange([]);
+    onGraphChange({
+      vertices: [],
+      edges: [],
+      parcels: graph.parcels.map(parcel => ({
+        ...parcel,
+        edgeIds: [],
+        holes: parcel.holes.map(hole => ({ ...hole, edgeIds: [] }))
+      }))
+    }, "Hapus semua garis");
   };
   
+  // Abandon an unfinished polygon when switching tools
+  useEffect(() => {
+    setPolygonPoints([]);
+    setCursorPoint(null);
+  }, [activeTool]);
+  
+  // Escape cancels the polygon being placed; its edges are kept
+  useEffect(() => {
+    if (polygonPoints.length === 0) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setPolygonPoints([]);
+        setCursorPoint(null);
+      }
+    };
+    
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [polygonPoints]);
+  
   // Apply zoom effect
   useEffect(() => {
     const svgElement = svgRef.current;
@@ -175,12 +417,23 @@ export default function Canvas({
           <Button 
             variant="ghost" 
             size="icon" 
-            onClick={handleUndo}
-            title="Undo"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
             className="p-1.5 text-gray-600 hover:bg-gray-100 rounded"
           >
             <Undo className="h-5 w-5" />
           </Button>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded"
+          >
+            <Redo className="h-5 w-5" />
+          </Button>
           <Button 
             variant="ghost" 
             size="icon" 
@@ -244,53 +497,173 @@ export default function Canvas({
           onMouseDown={handleCanvasMouseDown}
           onMouseMove={handleCanvasMouseMove}
           onMouseUp={handleCanvasMouseUp}
-          onMouseLeave={handleCanvasMouseUp}
+          onMouseLeave={() => {
+            handleCanvasMouseUp();
+            setHoverPoint(null);
+          }}
+          onDoubleClick={() => activeTool === "polygon" && closePolygon()}
         >
           {/* Grid pattern for reference */}
           <defs>
             <pattern id="grid" width="50" height="50" patternUnits="userSpaceOnUse">
               <path d="M 50 0 L 0 0 0 50" fill="none" stroke="#E5E7EB" strokeWidth="1" />
             </pattern>
+            <pattern id="hole-hatch" width="8" height="8" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <rect width="8" height="8" fill="#FEE2E2" fillOpacity="0.6" />
+              <line x1="0" y1="0" x2="0" y2="8" stroke="#DC2626" strokeWidth="1" strokeOpacity="0.5" />
+            </pattern>
           </defs>
           <rect width="100%" height="100%" fill="url(#grid)" />
           
-          {/* Polygon area visualization */}
-          {polygon && (
-            <polygon 
-              points={polygon}
-              fill="#3B82F6" 
-              fillOpacity="0.1"
-              stroke="#3B82F6" 
-              strokeWidth="1" 
-              strokeDasharray="5,5"
-            />
+          {/* Parcel area visualization, the active parcel emphasised */}
+          {parcelPolygons.map(({ parcel, points, labelPoint }) => (
+            <g key={parcel.id} pointerEvents="none">
+              <polygon 
+                points={points}
+                fill={parcel.color} 
+                fillOpacity={parcel.id === activeParcelId ? 0.2 : 0.1}
+                stroke={parcel.color} 
+                strokeWidth="1" 
+                strokeDasharray="5,5"
+              />
+              
+              <text 
+                x={labelPoint.x}
+                y={labelPoint.y}
+                fill={parcel.color}
+                className="text-sm font-semibold"
+                textAnchor="middle"
+              >
+                {parcel.name}
+              </text>
+            </g>
+          ))}
+          
+          {/* Excluded areas, hatched over the parcel they sit in */}
+          {holePolygons.map(({ key, points }) => (
+            <g key={key} pointerEvents="none">
+              <polygon 
+                points={points}
+                fill="url(#hole-hatch)"
+                stroke="#DC2626" 
+                strokeWidth="1" 
+                strokeDasharray="3,3"
+              />
+            </g>
+          ))}
+          
+          {/* Earlier revision underneath, with arrows from where each corner used to be,
+              lines since removed in red and lines since added picked out in green */}
+          {comparison && (
+            <g pointerEvents="none">
+              {comparison.previousLines.map(line => (
+                <line 
+                  key={line.id}
+                  x1={line.startPoint.x} 
+                  y1={line.startPoint.y}
+                  x2={line.endPoint.x} 
+                  y2={line.endPoint.y}
+                  stroke="#9CA3AF"
+                  strokeWidth="2"
+                  strokeDasharray="4,4"
+                />
+              ))}
+              
+              {comparison.diff.removedLines.map(line => (
+                <line 
+                  key={`removed-${line.id}`}
+                  x1={line.startPoint.x} 
+                  y1={line.startPoint.y}
+                  x2={line.endPoint.x} 
+                  y2={line.endPoint.y}
+                  stroke="#EF4444"
+                  strokeWidth="2"
+                  strokeDasharray="4,4"
+                />
+              ))}
+              
+              {comparison.diff.addedLines.map(line => (
+                <line 
+                  key={`added-${line.id}`}
+                  x1={line.startPoint.x} 
+                  y1={line.startPoint.y}
+                  x2={line.endPoint.x} 
+                  y2={line.endPoint.y}
+                  stroke="#22C55E"
+                  strokeWidth="8"
+                  strokeOpacity="0.4"
+                  strokeLinecap="round"
+                />
+              ))}
+              
+              {comparison.diff.movedVertices.map(({ id, from, to }) => (
+                <g key={id}>
+                  <line 
+                    x1={from.x} 
+                    y1={from.y}
+                    x2={to.x} 
+                    y2={to.y}
+                    stroke="#6B7280"
+                    strokeWidth="1"
+                  />
+                  <circle 
+                    cx={from.x} 
+                    cy={from.y} 
+                    r="5"
+                    fill="white"
+                    stroke="#6B7280"
+                    strokeWidth="1.5"
+                  />
+                </g>
+              ))}
+              
+              {comparison.diff.changedLengths.map(({ line, previousLength }) => (
+                <text 
+                  key={line.id}
+                  x={(line.startPoint.x + line.endPoint.x) / 2}
+                  y={(line.startPoint.y + line.endPoint.y) / 2 + 16}
+                  className="text-xs fill-gray-500"
+                  textAnchor="middle"
+                >
+                  was {formatLength(previousLength, units.length)}
+                </text>
+              ))}
+            </g>
           )}
           
-          {/* Render existing measurement lines */}
-          {lines.map(line => (
+          {/* Render diagonals as dashed tie lines between corners */}
+          {lines.filter(line => line.kind === "diagonal").map(line => (
             <g key={line.id} className="measurement-group">
               <line 
                 x1={line.startPoint.x} 
                 y1={line.startPoint.y}
                 x2={line.endPoint.x} 
                 y2={line.endPoint.y}
-                className="stroke-primary stroke-2"
+                stroke="#F59E0B"
+                strokeWidth="2"
+                strokeDasharray="6,4"
               />
               
-              <circle 
-                cx={line.startPoint.x} 
-                cy={line.startPoint.y} 
-                r="5"
-                className="fill-primary cursor-move"
-                onMouseDown={(e) => handlePointMouseDown(e, line.id, true)}
-              />
-              
-              <circle 
-                cx={line.endPoint.x} 
-                cy={line.endPoint.y} 
-                r="5"
-                className="fill-primary cursor-move"
-                onMouseDown={(e) => handlePointMouseDown(e, line.id, false)}
+              <text 
+                x={(line.startPoint.x + line.endPoint.x) / 2}
+                y={(line.startPoint.y + line.endPoint.y) / 2 - 10}
+                className="text-sm font-medium fill-amber-600"
+                textAnchor="middle"
+              >
+                {formatLength(line.length, units.length)}
+              </text>
+            </g>
+          ))}
+          
+          {/* Render existing measurement lines */}
+          {getBoundaryLines(lines).map(line => (
+            <g key={line.id} className="measurement-group">
+              <line 
+                x1={line.startPoint.x} 
+                y1={line.startPoint.y}
+                x2={line.endPoint.x} 
+                y2={line.endPoint.y}
+                className={holeEdgeIds.has(line.id) ? "stroke-red-600 stroke-2" : "stroke-primary stroke-2"}
               />
               
               {/* Line label */}
@@ -300,11 +673,131 @@ export default function Canvas({
                 className="text-sm font-medium fill-gray-600"
                 textAnchor="middle"
               >
-                {line.length}m
+                {formatLength(line.length, units.length)}
               </text>
             </g>
           ))}
           
+          {/* Topology problems: the edges involved and where it goes wrong */}
+          {topologyIssues.length > 0 && (
+            <g pointerEvents="none">
+              {problemLines.map(line => (
+                <line 
+                  key={line.id}
+                  x1={line.startPoint.x} 
+                  y1={line.startPoint.y}
+                  x2={line.endPoint.x} 
+                  y2={line.endPoint.y}
+                  stroke="#DC2626"
+                  strokeWidth="6"
+                  strokeOpacity="0.35"
+                  strokeLinecap="round"
+                />
+              ))}
+              
+              {topologyIssues.flatMap((issue, index) => issue.points.map((point, pointIndex) => (
+                <circle 
+                  key={`${index}-${pointIndex}`}
+                  cx={point.x} 
+                  cy={point.y} 
+                  r="10"
+                  fill="none"
+                  stroke="#DC2626"
+                  strokeWidth="2"
+                />
+              )))}
+            </g>
+          )}
+          
+          {/* Vertices pinned to a place on the earth */}
+          {geoTransform && (
+            <g pointerEvents="none">
+              {graph.vertices.filter(vertex => geoTransform.residuals.has(vertex.id)).map(vertex => (
+                <g key={vertex.id}>
+                  <circle 
+                    cx={vertex.x} 
+                    cy={vertex.y} 
+                    r="9"
+                    fill="none"
+                    stroke="#059669"
+                    strokeWidth="2"
+                  />
+                  <text 
+                    x={vertex.x + 12} 
+                    y={vertex.y - 8}
+                    className="text-xs font-medium fill-emerald-700"
+                  >
+                    {vertex.id}
+                  </text>
+                </g>
+              ))}
+            </g>
+          )}
+          
+          {/* Corners, shared by every edge that meets there */}
+          {graph.vertices.map(vertex => (
+            <circle 
+              key={vertex.id}
+              cx={vertex.x} 
+              cy={vertex.y} 
+              r="5"
+              className="fill-primary cursor-move"
+              onMouseDown={(e) => handleVertexMouseDown(e, vertex)}
+            />
+          ))}
+          
+          {/* Calibration reference line */}
+          {calibration && !(isDrawing && activeTool === "calibrate") && (
+            <g className="measurement-group" pointerEvents="none">
+              <line 
+                x1={calibration.startPoint.x} 
+                y1={calibration.startPoint.y}
+                x2={calibration.endPoint.x} 
+                y2={calibration.endPoint.y}
+                stroke="#9333EA"
+                strokeWidth="2"
+                strokeDasharray="2,3"
+              />
+              
+              <text 
+                x={(calibration.startPoint.x + calibration.endPoint.x) / 2}
+                y={(calibration.startPoint.y + calibration.endPoint.y) / 2 + 20}
+                className="text-sm font-medium fill-purple-600"
+                textAnchor="middle"
+              >
+                Reference {formatLength(calibration.length, units.length)}
+              </text>
+            </g>
+          )}
+          
+          {/* Polygon being placed, with a preview edge to the cursor */}
+          {activeTool === "polygon" && polygonPoints.length > 0 && (
+            <g className="measurement-group">
+              {cursorPoint && (
+                <line 
+                  x1={polygonPoints[polygonPoints.length - 1].x} 
+                  y1={polygonPoints[polygonPoints.length - 1].y}
+                  x2={cursorPoint.x} 
+                  y2={cursorPoint.y}
+                  className="stroke-primary stroke-2"
+                  strokeDasharray="4,4"
+                  pointerEvents="none"
+                />
+              )}
+              
+              {polygonPoints.map((point, index) => (
+                <circle 
+                  key={index}
+                  cx={point.x} 
+                  cy={point.y} 
+                  r={index === 0 && polygonPoints.length >= 3 ? 8 : 5}
+                  className={index === 0 ? "fill-white stroke-primary stroke-2" : "fill-primary"}
+                  pointerEvents="none"
+                />
+              ))}
+            </g>
+          )}
+          
           {/* Current line being drawn */}
           {isDrawing && currentLine && currentLine.startPoint && currentLine.endPoint && (
             <g className="measurement-group">
@@ -314,6 +807,7 @@ export default function Canvas({
                 x2={currentLine.endPoint.x} 
                 y2={currentLine.endPoint.y}
                 className="stroke-primary stroke-2"
+                strokeDasharray={currentLine.kind === "diagonal" ? "6,4" : undefined}
               />
               
               <circle 
@@ -332,12 +826,27 @@ export default function Canvas({
             </g>
           )}
         </svg>
+        
+        {/* Coordinates under the cursor, and the number of the corner there */}
+        {hoverPoint && (hoveredVertex || geoTransform) && (
+          <div className="absolute bottom-2 left-2 bg-white/90 border border-gray-200 rounded px-2 py-1 text-xs font-mono text-gray-700 pointer-events-none">
+            {hoveredVertex && <span className="font-sans font-medium mr-2">Point {hoveredVertex.id}</span>}
+            {hoverGeo && hoverUtm && geoTransform && (
+              <>
+                {hoverGeo.lat.toFixed(7)}, {hoverGeo.lon.toFixed(7)}
+                <span className="text-gray-500 ml-2">
+                  {formatUtmZone(geoTransform.zone)} {hoverUtm.x.toFixed(2)} E {hoverUtm.y.toFixed(2)} N
+                </span>
+              </>
+            )}
+          </div>
+        )}
       </div>
       
       {/* Canvas instructions */}
       <div className="mt-3 text-sm text-gray-600 flex items-center">
         <Info className="h-4 w-4 mr-1" />
-        Click to place points and create measurement lines. Drag points to adjust.
+        {TOOL_INSTRUCTIONS[activeTool]}
       </div>
     </div>
   );
@@ -0,0 +1,240 @@
+import { useState, useRef } from "react";
+import { FileUp, MapPin, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { type PlotGraph, type Calibration, type Units } from "@shared/schema";
+import { addRingToParcel, getRingEdgeIds, resolveRingLines } from "@shared/measurements";
+import { calculateDistance, getBoundaryLines } from "@shared/geometry";
+import {
+  coordinatesToCorners, parseCoordinateText, type CoordinateOrder
+} from "@/lib/utils/coordinates";
+import { placeOnCanvas } from "@/lib/utils/placement";
+import { LENGTH_UNITS, fromLengthUnit } from "@/lib/utils/units";
+import { useToast } from "@/hooks/use-toast";
+
+const ORDER_LABELS: Record<CoordinateOrder, string> = {
+  xy: "X, Y",
+  ne: "Utara (N), Timur (E)"
+};
+
+// Typed values as entered; x is the easting and y the northing
+interface CoordinateInputRow {
+  label: string;
+  x: string;
+  y: string;
+}
+
+const emptyRows = (): CoordinateInputRow[] =>
+  Array.from({ length: 4 }, (_, i) => ({ label: String(i + 1), x: "", y: "" }));
+
+interface CoordinateEntryProps {
+  graph: PlotGraph;
+  onGraphChange: (graph: PlotGraph, label: string) => void;
+  activeParcelId: number;
+  activeHoleId: number | null;
+  ringName: string;
+  calibration: Calibration | null;
+  units: Units;
+}
+
+/**
+ * Enter a boundary as a list of corner coordinates, typed in or imported
+ * from a total station export, and draw it into the active ring
+ */
+export default function CoordinateEntry({
+  graph,
+  onGraphChange,
+  activeParcelId,
+  activeHoleId,
+  ringName,
+  calibration,
+  units
+}: CoordinateEntryProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [order, setOrder] = useState<CoordinateOrder>("xy");
+  const [rows, setRows] = useState<CoordinateInputRow[]>(emptyRows);
+  const [pasted, setPasted] = useState("");
+
+  // Columns in the order the list is written
+  const columns: ("x" | "y")[] = order === "xy" ? ["x", "y"] : ["y", "x"];
+  const columnLabels = { x: order === "xy" ? "X" : "E", y: order === "xy" ? "Y" : "N" };
+
+  const updateRow = (index: number, change: Partial<CoordinateInputRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...change } : row));
+  };
+
+  // Replace the table with the coordinates read from a list
+  const importText = (text: string) => {
+    const { rows: parsed, skippedLines } = parseCoordinateText(text, order);
+    if (parsed.length === 0) {
+      toast({
+        title: "Impor Gagal",
+        description: "Tidak ada koordinat yang dapat dibaca",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setRows(parsed.map(row => ({ label: row.label, x: String(row.x), y: String(row.y) })));
+    setPasted("");
+    toast({
+      title: "Koordinat Diimpor",
+      description: skippedLines.length > 0
+        ? `${parsed.length} titik diimpor; baris ${skippedLines.join(", ")} dilewati`
+        : `${parsed.length} titik diimpor`
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importText(await file.text());
+    }
+    e.target.value = "";
+  };
+
+  const handleDraw = () => {
+    const ringEdgeIds = getRingEdgeIds(graph, activeParcelId, activeHoleId);
+    if (getBoundaryLines(resolveRingLines(graph, ringEdgeIds)).length > 0) {
+      toast({
+        title: "Bidang Sudah Digambar",
+        description: `${ringName} sudah memiliki garis. Tambah bidang baru untuk memasukkan koordinat.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Rows left blank are skipped
+    const corners = coordinatesToCorners(rows
+      .filter(row => row.x.trim() !== "" || row.y.trim() !== "")
+      .map(row => ({
+        x: fromLengthUnit(parseFloat(row.x), units.length),
+        y: fromLengthUnit(parseFloat(row.y), units.length)
+      })));
+
+    if (corners.some(corner => isNaN(corner.x) || isNaN(corner.y)) || corners.length < 3) {
+      toast({
+        title: "Data Tidak Valid",
+        description: "Masukkan setidaknya 3 titik dengan koordinat berupa angka",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Every line takes its length from the coordinates at either end
+    const lengths = corners.map((corner, i) => calculateDistance(corner, corners[(i + 1) % corners.length]));
+    onGraphChange(
+      addRingToParcel(graph, activeParcelId, activeHoleId, placeOnCanvas(corners, calibration), lengths),
+      "Input koordinat"
+    );
+    setRows(emptyRows());
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <MapPin className="h-4 w-4 mr-2" />
+          Daftar Koordinat
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Select value={order} onValueChange={(value) => setOrder(value as CoordinateOrder)}>
+          <SelectTrigger className="mb-3">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ORDER_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="grid grid-cols-[3rem_1fr_1fr_2rem] gap-2 items-center text-xs text-gray-500 mb-1">
+          <span>Titik</span>
+          {columns.map(column => (
+            <span key={column}>{columnLabels[column]} ({LENGTH_UNITS[units.length].symbol})</span>
+          ))}
+          <span />
+        </div>
+
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[3rem_1fr_1fr_2rem] gap-2 items-center">
+              <Input
+                value={row.label}
+                onChange={(e) => updateRow(index, { label: e.target.value })}
+                className="h-8 text-sm px-2"
+              />
+              {columns.map(column => (
+                <Input
+                  key={column}
+                  type="number"
+                  step="any"
+                  value={row[column]}
+                  onChange={(e) => updateRow(index, { [column]: e.target.value })}
+                  className="h-8 text-sm"
+                />
+              ))}
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                className="h-8 w-8 text-gray-400 hover:text-red-500"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRows([...rows, { label: String(rows.length + 1), x: "", y: "" }])}
+          className="mt-2 w-full"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Tambah Titik
+        </Button>
+
+        <Textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder={`Tempel daftar koordinat, satu titik per baris:\n1, ${columnLabels[columns[0]]}, ${columnLabels[columns[1]]}`}
+          className="mt-3 text-sm font-mono"
+          rows={3}
+        />
+
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={() => importText(pasted)} disabled={pasted.trim() === ""}>
+            Impor Tempelan
+          </Button>
+          <Input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-1" />
+            Impor CSV
+          </Button>
+        </div>
+
+        <Button onClick={handleDraw} className="mt-2 w-full">
+          Gambar {ringName}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
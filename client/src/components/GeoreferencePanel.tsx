@@ -0,0 +1,200 @@
+import { useState, useMemo } from "react";
+import { LocateFixed, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { type PlotGraph, type Georeference, type Units, geoPointSchema } from "@shared/schema";
+import { formatUtmZone, getUtmEpsgCode } from "@shared/projection";
+import {
+  type GeoTransform, measureGeoreferencedArea, setControlPoint
+} from "@/lib/utils/georeference";
+import { formatArea, formatLength } from "@/lib/utils/units";
+import { useToast } from "@/hooks/use-toast";
+
+interface GeoreferencePanelProps {
+  graph: PlotGraph;
+  georeference: Georeference | null;
+  onGeoreferenceChange: (georeference: Georeference | null, label: string) => void;
+  geoTransform: GeoTransform | null;
+  // Area from the measured lengths, to compare the mapped areas against
+  measuredArea: number;
+  units: Units;
+}
+
+/**
+ * Pin vertices to their latitude and longitude so the drawing lines up
+ * with GPS data, and compare the area on the map with the measured one
+ */
+export default function GeoreferencePanel({
+  graph,
+  georeference,
+  onGeoreferenceChange,
+  geoTransform,
+  measuredArea,
+  units
+}: GeoreferencePanelProps) {
+  const { toast } = useToast();
+  const [vertexId, setVertexId] = useState("");
+  const [lat, setLat] = useState("");
+  const [lon, setLon] = useState("");
+
+  const vertexIds = new Set(graph.vertices.map(vertex => vertex.id));
+  const controlPoints = (georeference?.controlPoints ?? []).filter(point => vertexIds.has(point.vertexId));
+
+  const mappedArea = useMemo(
+    () => geoTransform ? measureGeoreferencedArea(graph, geoTransform) : null,
+    [graph, geoTransform]
+  );
+
+  const handlePin = () => {
+    const place = geoPointSchema.safeParse({ lat: parseFloat(lat), lon: parseFloat(lon) });
+    if (vertexId === "" || !place.success) {
+      toast({
+        title: "Data Tidak Valid",
+        description: "Pilih titik dan masukkan lintang (-90 s.d. 90) dan bujur (-180 s.d. 180) dalam derajat desimal",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onGeoreferenceChange(
+      setControlPoint(georeference, { vertexId: Number(vertexId), ...place.data }),
+      `Sematkan titik ${vertexId}`
+    );
+    setVertexId("");
+    setLat("");
+    setLon("");
+  };
+
+  const handleUnpin = (id: number) => {
+    const remaining = controlPoints.filter(point => point.vertexId !== id);
+    onGeoreferenceChange(
+      remaining.length > 0 ? { crs: "EPSG:4326", controlPoints: remaining } : null,
+      `Lepas titik ${id}`
+    );
+  };
+
+  // Difference of the mapped area from the measured one, as a percentage
+  const difference = (area: number) => measuredArea > 0
+    ? `${((area - measuredArea) / measuredArea * 100).toFixed(2)}%`
+    : "-";
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <LocateFixed className="h-4 w-4 mr-2" />
+          Georeferensi
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {geoTransform && mappedArea ? (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-3">
+            <span className="text-gray-600">Zona</span>
+            <span className="text-right">
+              {formatUtmZone(geoTransform.zone)} (EPSG:{getUtmEpsgCode(geoTransform.zone)})
+            </span>
+            <span className="text-gray-600">Skala</span>
+            <span className="text-right">{geoTransform.metersPerPixel.toFixed(4)} m/piksel</span>
+            <span className="text-gray-600">Rotasi</span>
+            <span className="text-right">{geoTransform.rotation.toFixed(2)}°</span>
+            <span className="text-gray-600">Luas grid UTM</span>
+            <span className="text-right">
+              {formatArea(mappedArea.gridArea, units.area)} ({difference(mappedArea.gridArea)})
+            </span>
+            <span className="text-gray-600">Luas geodesik</span>
+            <span className="text-right">
+              {formatArea(mappedArea.geodesicArea, units.area)} ({difference(mappedArea.geodesicArea)})
+            </span>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-3">
+            Plot belum memiliki lokasi. Sematkan titik sudut ke koordinat GPS-nya.
+          </p>
+        )}
+
+        {controlPoints.length > 0 && (
+          <ul className="space-y-1 text-sm mb-3">
+            {controlPoints.map(point => {
+              const residual = geoTransform?.residuals.get(point.vertexId);
+
+              return (
+                <li key={point.vertexId} className="flex items-center justify-between gap-2">
+                  <span className="text-gray-700">Titik {point.vertexId}</span>
+                  <span className="font-mono text-xs">
+                    {point.lat.toFixed(7)}, {point.lon.toFixed(7)}
+                  </span>
+                  {controlPoints.length > 1 && residual !== undefined && (
+                    <span className={`text-xs ${residual > 1 ? "text-amber-600" : "text-gray-500"}`}>
+                      ±{formatLength(residual, units.length)}
+                    </span>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleUnpin(point.vertexId)}
+                    className="h-7 w-7 text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-[6rem_1fr_1fr] gap-2 items-center">
+          <Select value={vertexId} onValueChange={setVertexId}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Titik" />
+            </SelectTrigger>
+            <SelectContent>
+              {graph.vertices.map(vertex => (
+                <SelectItem key={vertex.id} value={String(vertex.id)}>Titik {vertex.id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="any"
+            value={lat}
+            onChange={(e) => setLat(e.target.value)}
+            placeholder="Lintang"
+            className="h-8 text-sm"
+          />
+          <Input
+            type="number"
+            step="any"
+            value={lon}
+            onChange={(e) => setLon(e.target.value)}
+            placeholder="Bujur"
+            className="h-8 text-sm"
+          />
+        </div>
+
+        <p className="text-xs text-gray-500 mt-2">
+          Satu titik menetapkan posisi; dua titik atau lebih juga menetapkan arah dan skala.
+          Arahkan kursor ke titik di kanvas untuk melihat nomornya.
+        </p>
+
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onGeoreferenceChange(null, "Hapus georeferensi")}
+            disabled={controlPoints.length === 0}
+          >
+            Hapus Semua
+          </Button>
+          <Button onClick={handlePin} disabled={graph.vertices.length === 0}>
+            Sematkan Titik
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
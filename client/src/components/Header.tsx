@@ -1,26 +1,53 @@
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Upload, Plus } from "lucide-react";
+import { Upload, Plus, FolderOpen, LogOut, FileInput } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { IMPORT_FILE_TYPES } from "@/lib/utils/import";
 
 interface HeaderProps {
   onNewPlot: () => void;
   onImageUpload: (file: File) => void;
+  onPlotFileImport: (file: File) => void;
 }
 
-export default function Header({ onNewPlot, onImageUpload }: HeaderProps) {
+export default function Header({ onNewPlot, onImageUpload, onPlotFileImport }: HeaderProps) {
+  const { user, logoutMutation } = useAuth();
+  
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       onImageUpload(file);
     }
   };
+  
+  const handlePlotFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onPlotFileImport(file);
+    }
+    // Allow importing the same file again
+    e.target.value = "";
+  };
 
   return (
     <header className="bg-white border-b border-gray-200 shadow-sm">
       <div className="container mx-auto px-4 py-3 flex justify-between items-center">
         <h1 className="text-xl font-semibold text-gray-800">Land Area Calculator</h1>
         <div className="flex space-x-3">
+          <Button 
+            asChild
+            variant="outline"
+            size="sm"
+            className="px-3 py-1.5"
+          >
+            <Link href="/plots">
+              <FolderOpen className="h-4 w-4 mr-1" />
+              My Plots
+            </Link>
+          </Button>
+          
           <Button 
             onClick={onNewPlot}
             size="sm"
@@ -48,6 +75,39 @@ export default function Header({ onNewPlot, onImageUpload }: HeaderProps) {
               Upload Image
             </Button>
           </div>
+          
+          <div className="relative">
+            <Input
+              id="plot-file-input"
+              type="file"
+              accept={IMPORT_FILE_TYPES}
+              className="hidden"
+              onChange={handlePlotFileChange}
+            />
+            <Button 
+              onClick={() => document.getElementById('plot-file-input')?.click()}
+              title="Import parcels from a GeoJSON, KML or KMZ file"
+              variant="outline"
+              size="sm"
+              className="px-3 py-1.5"
+            >
+              <FileInput className="h-4 w-4 mr-1" />
+              Import
+            </Button>
+          </div>
+          
+          {user && (
+            <Button 
+              onClick={() => logoutMutation.mutate()}
+              variant="ghost"
+              size="sm"
+              className="px-3 py-1.5 text-gray-600"
+              title={`Logged in as ${user.username}`}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Log Out
+            </Button>
+          )}
         </div>
       </div>
     </header>
@@ -0,0 +1,51 @@
+import { History } from "lucide-react";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { type HistoryEntry } from "@/hooks/use-history";
+
+interface HistoryListProps<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+  onJump: (index: number) => void;
+}
+
+export default function HistoryList<T>({ entries, index, onJump }: HistoryListProps<T>) {
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <History className="h-4 w-4 mr-2" />
+          Riwayat
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-48">
+          <ol className="space-y-1 pr-3">
+            {entries.map((entry, position) => (
+              <li key={position}>
+                <button
+                  type="button"
+                  onClick={() => onJump(position)}
+                  className={`w-full text-left text-sm px-2 py-1 rounded ${
+                    position === index
+                      ? "bg-primary/10 font-medium text-primary"
+                      : position > index
+                        ? "text-gray-400 hover:bg-gray-50"
+                        : "text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {entry.label}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+        <p className="text-xs text-gray-500 mt-2">
+          Ctrl+Z untuk membatalkan, Ctrl+Shift+Z untuk mengulangi
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
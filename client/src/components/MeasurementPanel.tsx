@@ -1,76 +1,275 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { 
-  Plus, Save, Download, Trash2, FileText 
+  Plus, Save, Download, Trash2, FileText, Ruler, RotateCcw, AlertTriangle, Globe, Earth, FileArchive, DraftingCompass, Layers 
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
 import { 
   Card, CardContent, CardHeader, CardTitle 
 } from "@/components/ui/card";
-import { type Line } from "@shared/schema";
+import { 
+  type Line, type PlotGraph, type Calibration, type Units, type LengthUnit, type AreaUnit, type AccessibleLandPlot,
+  type Georeference 
+} from "@shared/schema";
+import { 
+  createHole, createParcel, removeEdge, removeHole, removeParcel, resolveParcelLines, resolveRingLines 
+} from "@shared/measurements";
+import { type DrawingTool } from "@/components/Canvas";
+import HistoryList from "@/components/HistoryList";
+import TraversePanel from "@/components/TraversePanel";
+import BearingEntry from "@/components/BearingEntry";
+import CoordinateEntry from "@/components/CoordinateEntry";
+import GeoreferencePanel from "@/components/GeoreferencePanel";
+import { 
+  getBoundaryLines, getMetersPerPixel, hasClosedParcel, type ParcelSurvey 
+} from "@shared/geometry";
+import { 
+  AREA_UNITS, LENGTH_UNITS, formatArea, formatLength, fromLengthUnit, toAreaUnit, toLengthUnit 
+} from "@/lib/utils/units";
+import { type TopologyIssue, type TopologyIssueKind } from "@/lib/utils/topology";
+import { plotToGeoJson } from "@/lib/utils/geojson";
+import { kmlToKmz, plotToKml } from "@/lib/utils/kml";
+import { plotToDxf } from "@/lib/utils/dxf";
+import { plotToShapefile } from "@/lib/utils/shapefile";
+import { type GeoTransform } from "@/lib/utils/georeference";
+import { downloadBlob } from "@/lib/utils/download";
 import { useToast } from "@/hooks/use-toast";
+import { type HistoryEntry } from "@/hooks/use-history";
 import { apiRequest } from "@/lib/queryClient";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
 
+const TOPOLOGY_ISSUE_LABELS: Record<TopologyIssueKind, string> = {
+  "self-intersection": "Garis batas saling berpotongan",
+  "duplicate-vertex": "Titik sudut ganda",
+  "gap": "Celah di antara garis batas",
+  "unclosed": "Batas belum tertutup"
+};
+
 interface MeasurementPanelProps {
-  lines: Line[];
-  onLinesChange: (lines: Line[]) => void;
+  graph: PlotGraph;
+  onGraphChange: (graph: PlotGraph, label: string, coalesceKey?: string) => void;
+  activeParcelId: number;
+  activeHoleId: number | null;
+  onActiveRingChange: (parcelId: number, holeId?: number | null) => void;
+  parcelSurveys: Map<number, ParcelSurvey>;
   defaultLength: number;
   onDefaultLengthChange: (length: number) => void;
-  scale: number;
-  onScaleChange: (scale: number) => void;
-  activeTool: "line" | "polygon";
-  onToolChange: (tool: "line" | "polygon") => void;
+  calibration: Calibration | null;
+  onCalibrationChange: (calibration: Calibration | null) => void;
+  units: Units;
+  onUnitsChange: (units: Units) => void;
+  activeTool: DrawingTool;
+  onToolChange: (tool: DrawingTool) => void;
   totalArea: number;
+  topologyIssues: TopologyIssue[];
+  georeference: Georeference | null;
+  onGeoreferenceChange: (georeference: Georeference | null, label: string) => void;
+  geoTransform: GeoTransform | null;
+  // Id of the saved plot being edited, or null for one not saved yet
+  plotId: number | null;
+  // Set when the plot was shared with the user to view only
+  readOnly: boolean;
+  onSaved: (plot: AccessibleLandPlot) => void;
+  historyEntries: HistoryEntry<unknown>[];
+  historyIndex: number;
+  onHistoryJump: (index: number) => void;
+  // Extra cards shown above the edit history
+  children?: React.ReactNode;
 }
 
 export default function MeasurementPanel({
-  lines,
-  onLinesChange,
+  graph,
+  onGraphChange,
+  activeParcelId,
+  activeHoleId,
+  onActiveRingChange,
+  parcelSurveys,
   defaultLength,
   onDefaultLengthChange,
-  scale,
-  onScaleChange,
+  calibration,
+  onCalibrationChange,
+  units,
+  onUnitsChange,
   activeTool,
   onToolChange,
-  totalArea
+  totalArea,
+  topologyIssues,
+  georeference,
+  onGeoreferenceChange,
+  geoTransform,
+  plotId,
+  readOnly,
+  onSaved,
+  historyEntries,
+  historyIndex,
+  onHistoryJump,
+  children
 }: MeasurementPanelProps) {
   const { toast } = useToast();
   const canvasRef = useRef<HTMLDivElement>(null);
   
+  const activeParcel = graph.parcels.find(parcel => parcel.id === activeParcelId) ?? graph.parcels[0];
+  const activeHole = activeParcel.holes.find(hole => hole.id === activeHoleId);
+  const activeSurvey = parcelSurveys.get(activeParcel.id);
+  const activeRingName = activeHole?.name ?? activeParcel.name;
+  
+  // Lines of the ring being drawn, resolved to their corner positions
+  const lines = useMemo(() => {
+    return activeHole
+      ? resolveRingLines(graph, activeHole.edgeIds)
+      : resolveParcelLines(graph, activeParcel);
+  }, [graph, activeParcel, activeHole]);
+  
+  // Diagonals do not count towards closing the plot outline
+  const boundaryLineCount = getBoundaryLines(lines).length;
+  const activeRingSurvey = activeHole ? activeSurvey?.holes.get(activeHole.id) : activeSurvey?.boundary;
+  const closingError = activeRingSurvey?.closingError ?? 0;
+  // Diagonals measured beyond those the shape was built from
+  const checkLines = activeRingSurvey?.checkLines ?? [];
+  
+  // Totals over every parcel, before and after excluded areas
+  const grossArea = Array.from(parcelSurveys.values()).reduce((sum, survey) => sum + survey.grossArea, 0);
+  const excludedArea = Array.from(parcelSurveys.values()).reduce((sum, survey) => sum + survey.excludedArea, 0);
+  
+  // At least one parcel has to be closed before there is an area to keep
+  const isClosed = hasClosedParcel(graph);
+  
+  // Drawing problems block saving and exporting until fixed, or until the
+  // user accepts exactly these problems
+  const [acceptedIssues, setAcceptedIssues] = useState<string | null>(null);
+  const issuesKey = topologyIssues.map(issue => `${issue.kind}:${issue.edgeIds.join(",")}`).join("|");
+  const hasBlockingIssues = topologyIssues.length > 0 && acceptedIssues !== issuesKey;
+  
+  // Name the ring an issue is in, as listed under Bidang
+  const getIssueRingName = (issue: TopologyIssue) => {
+    const parcel = graph.parcels.find(parcel => parcel.id === issue.parcelId);
+    if (!parcel) return null;
+    return parcel.holes.find(hole => hole.id === issue.holeId)?.name ?? parcel.name;
+  };
+  
+  // Tell the user why a save or export did not happen
+  const warnTopologyIssues = (title: string) => {
+    toast({
+      title,
+      description: "Perbaiki masalah bentuk yang ditandai merah, atau centang untuk mengabaikannya",
+      variant: "destructive"
+    });
+  };
+  
+  // Number boundary lines and diagonals separately within a parcel
+  const getLineLabel = (line: Line, parcelLines: Line[] = lines) => {
+    const position = parcelLines.filter(other => other.kind === line.kind).indexOf(line) + 1;
+    return line.kind === "diagonal" ? `Diagonal ${position}` : `Garis ${position}`;
+  };
+  
+  // Handle adding a parcel and drawing into it
+  const handleAddParcel = () => {
+    const parcel = createParcel(graph.parcels);
+    onGraphChange({ ...graph, parcels: [...graph.parcels, parcel] }, "Tambah bidang");
+    onActiveRingChange(parcel.id);
+  };
+  
+  // Handle renaming a parcel
+  const handleRenameParcel = (parcelId: number, name: string) => {
+    onGraphChange({
+      ...graph,
+      parcels: graph.parcels.map(parcel => parcel.id === parcelId ? { ...parcel, name } : parcel)
+    }, "Ganti nama bidang", `parcel-name-${parcelId}`);
+  };
+  
+  // Handle deleting a parcel; boundaries shared with a neighbour are kept
+  const handleDeleteParcel = (parcelId: number) => {
+    const updatedGraph = removeParcel(graph, parcelId);
+    onGraphChange(updatedGraph, "Hapus bidang");
+    
+    if (parcelId === activeParcel.id) {
+      onActiveRingChange(updatedGraph.parcels[0].id);
+    }
+  };
+  
+  // Handle adding an excluded area to the active parcel and drawing into it
+  const handleAddHole = () => {
+    const hole = createHole(activeParcel);
+    onGraphChange({
+      ...graph,
+      parcels: graph.parcels.map(parcel =>
+        parcel.id === activeParcel.id ? { ...parcel, holes: [...parcel.holes, hole] } : parcel
+      )
+    }, "Tambah area dikecualikan");
+    onActiveRingChange(activeParcel.id, hole.id);
+  };
+  
+  // Handle renaming an excluded area
+  const handleRenameHole = (holeId: number, name: string) => {
+    onGraphChange({
+      ...graph,
+      parcels: graph.parcels.map(parcel => parcel.id === activeParcel.id
+        ? { ...parcel, holes: parcel.holes.map(hole => hole.id === holeId ? { ...hole, name } : hole) }
+        : parcel
+      )
+    }, "Ganti nama area dikecualikan", `hole-name-${activeParcel.id}-${holeId}`);
+  };
+  
+  // Handle deleting an excluded area
+  const handleDeleteHole = (holeId: number) => {
+    onGraphChange(removeHole(graph, activeParcel.id, holeId), "Hapus area dikecualikan");
+    
+    if (holeId === activeHoleId) {
+      onActiveRingChange(activeParcel.id);
+    }
+  };
+  
   // Handle default length change
   const handleDefaultLengthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
     if (!isNaN(value) && value > 0) {
-      onDefaultLengthChange(value);
+      onDefaultLengthChange(fromLengthUnit(value, units.length));
     }
   };
   
-  // Handle scale change
-  const handleScaleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Handle true length of the calibration reference line
+  const handleCalibrationLengthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
-    if (!isNaN(value) && value > 0) {
-      onScaleChange(value);
+    if (calibration && !isNaN(value) && value > 0) {
+      onCalibrationChange({ ...calibration, length: fromLengthUnit(value, units.length) });
     }
   };
   
-  // Handle measurement line length change
+  // Handle measurement line length change, typed in the chosen length unit;
+  // a typed length overrides the calibration
   const handleLineLengthChange = (lineId: number, newLength: number) => {
     if (isNaN(newLength) || newLength <= 0) return;
     
-    const updatedLines = lines.map(line => 
-      line.id === lineId ? { ...line, length: newLength } : line
+    const length = fromLengthUnit(newLength, units.length);
+    const updatedEdges = graph.edges.map(edge => 
+      edge.id === lineId ? { ...edge, length, manualLength: true } : edge
     );
     
-    onLinesChange(updatedLines);
+    onGraphChange({ ...graph, edges: updatedEdges }, "Ubah panjang", `length-${lineId}`);
+  };
+  
+  // Handle going back to the length derived from the calibration, and the
+  // direction as drawn
+  const handleResetLineLength = (lineId: number) => {
+    const updatedEdges = graph.edges.map(edge => {
+      if (edge.id !== lineId) return edge;
+      
+      const { bearing, ...drawnEdge } = edge;
+      return { ...drawnEdge, manualLength: false };
+    });
+    
+    onGraphChange({ ...graph, edges: updatedEdges }, "Kembalikan panjang");
   };
   
   // Handle deleting a line
   const handleDeleteLine = (lineId: number) => {
-    const updatedLines = lines.filter(line => line.id !== lineId);
-    onLinesChange(updatedLines);
+    onGraphChange(removeEdge(graph, lineId), "Hapus garis");
   };
   
   // Handle adding a new line
@@ -82,9 +281,25 @@ export default function MeasurementPanel({
     });
   };
   
+  // Pins on vertices that have since been deleted are not kept
+  const savedGeoreference = (): Georeference | undefined => {
+    const vertexIds = new Set(graph.vertices.map(vertex => vertex.id));
+    const controlPoints = (georeference?.controlPoints ?? []).filter(point => vertexIds.has(point.vertexId));
+    return controlPoints.length > 0 ? { crs: "EPSG:4326", controlPoints } : undefined;
+  };
+  
   // Handle saving
   const handleSave = async () => {
-    if (lines.length < 3) {
+    if (readOnly) {
+      toast({
+        title: "Hanya Dapat Dilihat",
+        description: "Bidang ini dibagikan kepada Anda hanya untuk dilihat",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (!isClosed) {
       toast({
         title: "Tidak Dapat Menyimpan",
         description: "Mohon gambar setidaknya 3 garis pengukuran untuk membentuk area tertutup",
@@ -93,21 +308,38 @@ export default function MeasurementPanel({
       return;
     }
     
+    if (hasBlockingIssues) {
+      warnTopologyIssues("Tidak Dapat Menyimpan");
+      return;
+    }
+    
     try {
       const measurements = {
-        lines,
-        area: totalArea
+        vertices: graph.vertices,
+        edges: graph.edges,
+        parcels: graph.parcels,
+        area: totalArea,
+        calibration: calibration ?? undefined,
+        units,
+        georeference: savedGeoreference()
       };
       
       const date = new Date().toISOString();
       
-      await apiRequest("POST", "/api/land-plots", {
-        name: `Lahan ${date}`,
-        measurements,
-        area: Math.round(totalArea),
-        createdAt: date,
-        userId: 1 // In production, this would be the authenticated user ID
-      });
+      // A plot opened from the library is updated in place
+      const res = plotId !== null
+        ? await apiRequest("PATCH", `/api/land-plots/${plotId}`, {
+          measurements,
+          area: totalArea
+        })
+        : await apiRequest("POST", "/api/land-plots", {
+          name: `Lahan ${date}`,
+          measurements,
+          area: totalArea,
+          createdAt: date
+        });
+      
+      onSaved(await res.json());
       
       toast({
         title: "Pengukuran Tersimpan",
@@ -122,37 +354,64 @@ export default function MeasurementPanel({
     }
   };
   
-  // Handle export to JSON
-  const handleExport = () => {
-    if (lines.length < 3) {
+  // Exports need a closed area and no shape problems left unaccepted
+  const canExport = () => {
+    if (!isClosed) {
       toast({
         title: "Tidak Dapat Mengekspor",
         description: "Mohon gambar setidaknya 3 garis pengukuran untuk membentuk area tertutup",
         variant: "destructive"
       });
-      return;
+      return false;
+    }
+    
+    if (hasBlockingIssues) {
+      warnTopologyIssues("Tidak Dapat Mengekspor");
+      return false;
     }
     
+    return true;
+  };
+  
+  // Handle export to JSON
+  const handleExport = () => {
+    if (!canExport()) return;
+    
     // Create export data
     const exportData = {
-      lines,
+      vertices: graph.vertices,
+      edges: graph.edges,
+      parcels: graph.parcels.map(parcel => {
+        const survey = parcelSurveys.get(parcel.id);
+        return {
+          ...parcel,
+          holes: parcel.holes.map(hole => ({
+            ...hole,
+            area: survey?.holes.get(hole.id)?.area ?? 0
+          })),
+          grossArea: survey?.grossArea ?? 0,
+          excludedArea: survey?.excludedArea ?? 0,
+          netArea: survey?.netArea ?? 0,
+          closingError: survey?.boundary.closingError ?? 0
+        };
+      }),
+      grossArea,
+      excludedArea,
       area: totalArea,
+      calibration,
+      georeference: savedGeoreference() ?? null,
+      // Lengths and areas above are in meters and square meters; these are the
+      // units the plot was shown in, with the net area converted to them
+      units,
+      areaInUnit: toAreaUnit(totalArea, units.area),
       date: new Date().toISOString()
     };
     
-    // Convert to JSON and create download link
     const jsonString = JSON.stringify(exportData, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    // Create and click download link
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `pengukuran-lahan-${new Date().getTime()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(
+      new Blob([jsonString], { type: 'application/json' }),
+      `pengukuran-lahan-${new Date().getTime()}.json`
+    );
     
     toast({
       title: "Ekspor Berhasil",
@@ -160,17 +419,88 @@ export default function MeasurementPanel({
     });
   };
   
-  // Handle export to PDF with canvas capture
-  const handleExportPDF = async () => {
-    if (lines.length < 3) {
+  // Export the parcels as polygons a GIS can open
+  const handleExportGeoJson = () => {
+    if (!canExport()) return;
+    
+    const geoJson = plotToGeoJson(graph, parcelSurveys, units, calibration, geoTransform);
+    downloadBlob(
+      new Blob([JSON.stringify(geoJson, null, 2)], { type: 'application/geo+json' }),
+      `pengukuran-lahan-${new Date().getTime()}.geojson`
+    );
+    
+    toast({
+      title: "Ekspor Berhasil",
+      description: "Bidang telah diekspor ke GeoJSON",
+    });
+  };
+  
+  // Export for Google Earth, as a plain KML file or zipped as KMZ
+  const handleExportKml = (zipped: boolean) => {
+    if (!canExport()) return;
+    
+    if (!geoTransform) {
       toast({
-        title: "Tidak Dapat Mengekspor",
-        description: "Mohon gambar setidaknya 3 garis pengukuran untuk membentuk area tertutup",
+        title: "Plot Belum Berlokasi",
+        description: "Sematkan setidaknya satu titik ke koordinatnya di kartu Georeferensi",
         variant: "destructive"
       });
       return;
     }
     
+    const kml = plotToKml(graph, parcelSurveys, units, geoTransform, "Pengukuran Lahan");
+    const filename = `pengukuran-lahan-${new Date().getTime()}`;
+    downloadBlob(
+      zipped
+        ? new Blob([kmlToKmz(kml)], { type: 'application/vnd.google-earth.kmz' })
+        : new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' }),
+      zipped ? `${filename}.kmz` : `${filename}.kml`
+    );
+    
+    toast({
+      title: "Ekspor Berhasil",
+      description: `Bidang telah diekspor ke ${zipped ? "KMZ" : "KML"}`,
+    });
+  };
+  
+  // Export for AutoCAD, in meters on the UTM grid when the plot has a location
+  const handleExportDxf = () => {
+    if (!canExport()) return;
+    
+    const dxf = plotToDxf(graph, parcelSurveys, units, calibration, geoTransform);
+    downloadBlob(
+      new Blob([dxf], { type: 'application/dxf' }),
+      `pengukuran-lahan-${new Date().getTime()}.dxf`
+    );
+    
+    toast({
+      title: "Ekspor Berhasil",
+      description: "Bidang telah diekspor ke DXF",
+    });
+  };
+  
+  // Export for QGIS and ArcGIS as a zipped shapefile
+  const handleExportShapefile = () => {
+    if (!canExport()) return;
+    
+    const name = `pengukuran-lahan-${new Date().getTime()}`;
+    downloadBlob(
+      new Blob([plotToShapefile(graph, parcelSurveys, units, calibration, geoTransform, name)], { type: 'application/zip' }),
+      `${name}.zip`
+    );
+    
+    toast({
+      title: "Ekspor Berhasil",
+      description: geoTransform
+        ? "Bidang telah diekspor ke Shapefile"
+        : "Bidang telah diekspor ke Shapefile dengan koordinat lokal, karena plot belum berlokasi",
+    });
+  };
+  
+  // Handle export to PDF with canvas capture
+  const handleExportPDF = async () => {
+    if (!canExport()) return;
+    
     try {
       // Membuat notifikasi
       toast({
@@ -226,31 +556,58 @@ export default function MeasurementPanel({
       
       // Luas area dan informasi pengukuran lainnya
       pdf.setFontSize(12);
-      pdf.text(`Luas Area: ${totalArea.toFixed(2)} m²`, 20, 55);
-      pdf.text(`Jumlah Garis: ${lines.length}`, 20, 60);
-      pdf.text(`Skala Pengukuran: 1:${scale}`, 20, 65);
+      pdf.text(`Luas Kotor: ${formatArea(grossArea, units.area)}`, 20, 55);
+      pdf.text(`Luas Dikecualikan: ${formatArea(excludedArea, units.area)}`, 20, 60);
+      pdf.text(`Luas Bersih: ${formatArea(totalArea, units.area)}`, 20, 65);
+      pdf.text(`Jumlah Bidang: ${graph.parcels.length}`, 20, 70);
+      pdf.text(calibration
+        ? `Kalibrasi: 1 piksel = ${formatLength(getMetersPerPixel(calibration), units.length, 4)}`
+        : 'Kalibrasi: tidak ada (panjang diisi manual)', 20, 75);
+      
+      // Luas per bidang
+      let yPos = 85;
+      pdf.text('Luas per Bidang:', 20, yPos);
+      pdf.setFontSize(10);
+      graph.parcels.forEach((parcel) => {
+        const survey = parcelSurveys.get(parcel.id);
+        yPos += 5;
+        pdf.text(`${parcel.name}: ${formatArea(survey?.netArea ?? 0, units.area)} bersih (kesalahan penutup ${formatLength(survey?.boundary.closingError ?? 0, units.length)})`, 25, yPos);
+        
+        parcel.holes.forEach((hole) => {
+          yPos += 5;
+          pdf.text(`- ${hole.name}: ${formatArea(survey?.holes.get(hole.id)?.area ?? 0, units.area)} dikecualikan`, 30, yPos);
+        });
+      });
       
       // Tabel garis pengukuran
+      yPos += 10;
       pdf.setFontSize(12);
-      pdf.text('Detail Garis Pengukuran:', 20, 75);
+      pdf.text('Detail Garis Pengukuran:', 20, yPos);
       
       // Header tabel
+      yPos += 5;
       pdf.setDrawColor(0);
       pdf.setFillColor(240, 240, 240);
-      pdf.rect(20, 80, 80, 7, 'FD');
+      pdf.rect(20, yPos, 85, 7, 'FD');
       
       pdf.setTextColor(0);
       pdf.setFontSize(10);
-      pdf.text('No', 25, 85);
-      pdf.text('Panjang (meter)', 50, 85);
+      pdf.text('Garis', 23, yPos + 5);
+      pdf.text(`Panjang (${LENGTH_UNITS[units.length].symbol})`, 68, yPos + 5);
       
       // Isi tabel
-      let yPos = 87;
-      lines.forEach((line, index) => {
-        pdf.rect(20, yPos, 80, 7, 'S');
-        pdf.text(`${index + 1}`, 25, yPos + 5);
-        pdf.text(`${line.length.toFixed(2)} meter`, 50, yPos + 5);
-        yPos += 7;
+      yPos += 7;
+      const rings = graph.parcels.flatMap((parcel) => [
+        { name: parcel.name, lines: resolveParcelLines(graph, parcel) },
+        ...parcel.holes.map((hole) => ({ name: hole.name, lines: resolveRingLines(graph, hole.edgeIds) }))
+      ]);
+      rings.forEach((ring) => {
+        ring.lines.forEach((line) => {
+          pdf.rect(20, yPos, 85, 7, 'S');
+          pdf.text(`${ring.name} - ${getLineLabel(line, ring.lines)}`, 23, yPos + 5);
+          pdf.text(formatLength(line.length, units.length), 68, yPos + 5);
+          yPos += 7;
+        });
       });
       
       try {
@@ -320,6 +677,53 @@ export default function MeasurementPanel({
             </Button>
           </div>
           
+          <Button
+            onClick={() => onToolChange("diagonal")}
+            variant={activeTool === "diagonal" ? "default" : "outline"}
+            className="w-full mb-4"
+          >
+            Alat Diagonal
+          </Button>
+          
+          <div className="mb-4 grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="length-unit" className="text-sm font-medium text-gray-700">
+                Satuan Panjang
+              </Label>
+              <Select
+                value={units.length}
+                onValueChange={(value) => onUnitsChange({ ...units, length: value as LengthUnit })}
+              >
+                <SelectTrigger id="length-unit" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LENGTH_UNITS).map(([unit, { label }]) => (
+                    <SelectItem key={unit} value={unit}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="area-unit" className="text-sm font-medium text-gray-700">
+                Satuan Luas
+              </Label>
+              <Select
+                value={units.area}
+                onValueChange={(value) => onUnitsChange({ ...units, area: value as AreaUnit })}
+              >
+                <SelectTrigger id="area-unit" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AREA_UNITS).map(([unit, { label }]) => (
+                    <SelectItem key={unit} value={unit}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
           <div className="mb-4">
             <Label htmlFor="default-length" className="text-sm font-medium text-gray-700">
               Panjang Garis Default
@@ -328,32 +732,177 @@ export default function MeasurementPanel({
               <Input
                 id="default-length"
                 type="number"
-                value={defaultLength}
+                value={toLengthUnit(defaultLength, units.length)}
                 onChange={handleDefaultLengthChange}
                 min="0.1"
                 step="0.1"
                 className="rounded-r-none"
               />
               <span className="inline-flex items-center px-3 rounded-r-md border border-l-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
-                meter
+                {LENGTH_UNITS[units.length].symbol}
               </span>
             </div>
           </div>
           
           <div>
-            <Label htmlFor="scale-ratio" className="text-sm font-medium text-gray-700">
-              Skala Rasio (1:X)
+            <Label htmlFor="calibration-length" className="text-sm font-medium text-gray-700">
+              Kalibrasi Skala
             </Label>
-            <Input
-              id="scale-ratio"
-              type="number"
-              value={scale}
-              onChange={handleScaleChange}
-              min="1"
-              step="1"
-              className="mt-1"
-            />
-            <p className="mt-1 text-xs text-gray-500">Atur skala untuk pengukuran</p>
+            {calibration ? (
+              <>
+                <div className="flex mt-1">
+                  <Input
+                    id="calibration-length"
+                    type="number"
+                    value={toLengthUnit(calibration.length, units.length)}
+                    onChange={handleCalibrationLengthChange}
+                    min="0.01"
+                    step="0.01"
+                    className="rounded-r-none"
+                  />
+                  <span className="inline-flex items-center px-3 rounded-r-md border border-l-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
+                    {LENGTH_UNITS[units.length].symbol}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Panjang sebenarnya garis referensi (1 piksel = {formatLength(getMetersPerPixel(calibration), units.length, 4)})
+                </p>
+                <div className="flex space-x-2 mt-2">
+                  <Button
+                    onClick={() => onToolChange("calibrate")}
+                    variant={activeTool === "calibrate" ? "default" : "outline"}
+                    size="sm"
+                    className="flex-1"
+                  >
+                    <Ruler className="h-4 w-4 mr-1" />
+                    Gambar Ulang
+                  </Button>
+                  <Button
+                    onClick={() => onCalibrationChange(null)}
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-500 hover:text-red-500"
+                  >
+                    Hapus
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <Button
+                  onClick={() => onToolChange("calibrate")}
+                  variant={activeTool === "calibrate" ? "default" : "outline"}
+                  className="w-full mt-1"
+                >
+                  <Ruler className="h-4 w-4 mr-1" />
+                  Gambar Garis Referensi
+                </Button>
+                <p className="mt-1 text-xs text-gray-500">
+                  Gambar garis di atas objek yang panjangnya diketahui, lalu isi panjang sebenarnya
+                </p>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+      
+      {/* Parcels */}
+      <Card className="mb-6">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Bidang</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {graph.parcels.map((parcel) => (
+              <div
+                key={parcel.id}
+                onClick={() => onActiveRingChange(parcel.id)}
+                className={`flex items-center space-x-2 rounded p-1.5 cursor-pointer ${
+                  parcel.id === activeParcel.id && !activeHole ? "bg-blue-50 ring-1 ring-primary" : "hover:bg-gray-50"
+                }`}
+              >
+                <span
+                  className="h-3 w-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: parcel.color }}
+                />
+                <Input
+                  value={parcel.name}
+                  onChange={(e) => handleRenameParcel(parcel.id, e.target.value)}
+                  className="h-8 text-sm flex-1"
+                />
+                <span className="text-sm text-gray-600 whitespace-nowrap">
+                  {formatArea(parcelSurveys.get(parcel.id)?.netArea ?? 0, units.area)}
+                </span>
+                {graph.parcels.length > 1 && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteParcel(parcel.id);
+                    }}
+                    className="h-6 w-6 text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          
+          {/* Excluded areas inside the active parcel */}
+          <div className="mt-3 pl-4 space-y-2">
+            {activeParcel.holes.map((hole) => (
+              <div
+                key={hole.id}
+                onClick={() => onActiveRingChange(activeParcel.id, hole.id)}
+                className={`flex items-center space-x-2 rounded p-1.5 cursor-pointer ${
+                  hole.id === activeHole?.id ? "bg-red-50 ring-1 ring-red-500" : "hover:bg-gray-50"
+                }`}
+              >
+                <span className="h-3 w-3 flex-shrink-0 border border-dashed border-red-600 bg-red-100" />
+                <Input
+                  value={hole.name}
+                  onChange={(e) => handleRenameHole(hole.id, e.target.value)}
+                  className="h-8 text-sm flex-1"
+                />
+                <span className="text-sm text-red-600 whitespace-nowrap">
+                  −{formatArea(activeSurvey?.holes.get(hole.id)?.area ?? 0, units.area)}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteHole(hole.id);
+                  }}
+                  className="h-6 w-6 text-gray-400 hover:text-red-500"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            
+            <Button
+              onClick={handleAddHole}
+              variant="ghost"
+              size="sm"
+              className="w-full flex items-center justify-center text-sm text-red-600 hover:bg-red-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Tambah Area Dikecualikan di {activeParcel.name}
+            </Button>
+          </div>
+          
+          <div className="mt-2 pt-2 border-t border-gray-200">
+            <Button
+              onClick={handleAddParcel}
+              variant="ghost"
+              className="w-full flex items-center justify-center py-2 text-sm text-primary hover:bg-blue-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Tambah Bidang
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -361,7 +910,7 @@ export default function MeasurementPanel({
       {/* Measurements List */}
       <Card className="mb-6">
         <CardHeader className="pb-2">
-          <CardTitle className="text-lg">Pengukuran</CardTitle>
+          <CardTitle className="text-lg">Pengukuran {activeRingName}</CardTitle>
         </CardHeader>
         <CardContent>
           {lines.length === 0 ? (
@@ -370,20 +919,31 @@ export default function MeasurementPanel({
             </div>
           ) : (
             <div className="space-y-2 max-h-[220px] overflow-y-auto pr-1">
-              {lines.map((line, index) => (
+              {lines.map((line) => (
                 <div key={line.id} className="border-b border-gray-200 pb-2 last:border-0">
                   <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium">Garis {index + 1}</span>
+                    <span className="text-sm font-medium">{getLineLabel(line)}</span>
                     <div className="flex items-center space-x-2">
                       <Input
                         type="number"
-                        value={line.length}
+                        value={toLengthUnit(line.length, units.length)}
                         onChange={(e) => handleLineLengthChange(line.id, parseFloat(e.target.value))}
                         className="w-20 h-8 text-sm"
                         min="0.1"
                         step="0.1"
                       />
-                      <span className="text-xs text-gray-500">m</span>
+                      <span className="text-xs text-gray-500">{LENGTH_UNITS[units.length].symbol}</span>
+                      {calibration && line.manualLength && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleResetLineLength(line.id)}
+                          title="Gunakan panjang dari kalibrasi"
+                          className="h-6 w-6 text-gray-400 hover:text-primary"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         size="icon"
                         variant="ghost"
@@ -412,6 +972,78 @@ export default function MeasurementPanel({
         </CardContent>
       </Card>
       
+      {/* Boundary typed in from a certificate's bearings and distances */}
+      <BearingEntry 
+        graph={graph}
+        onGraphChange={onGraphChange}
+        activeParcelId={activeParcel.id}
+        activeHoleId={activeHole?.id ?? null}
+        ringName={activeRingName}
+        calibration={calibration}
+        units={units}
+      />
+      
+      {/* Boundary from a list of corner coordinates */}
+      <CoordinateEntry 
+        graph={graph}
+        onGraphChange={onGraphChange}
+        activeParcelId={activeParcel.id}
+        activeHoleId={activeHole?.id ?? null}
+        ringName={activeRingName}
+        calibration={calibration}
+        units={units}
+      />
+      
+      {/* Misclosure of the active ring and its adjustment */}
+      <TraversePanel lines={lines} ringName={activeRingName} units={units} />
+      
+      {/* Where the plot lies on the earth */}
+      <GeoreferencePanel 
+        graph={graph}
+        georeference={georeference}
+        onGeoreferenceChange={onGeoreferenceChange}
+        geoTransform={geoTransform}
+        measuredArea={totalArea}
+        units={units}
+      />
+      
+      {/* Drawing problems */}
+      {topologyIssues.length > 0 && (
+        <Card className="mb-6 border-red-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center text-red-700">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Masalah Bentuk
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {topologyIssues.map((issue, index) => {
+                const ringName = getIssueRingName(issue);
+                
+                return (
+                  <li key={index} className="flex justify-between gap-2">
+                    <span className="text-gray-700">{TOPOLOGY_ISSUE_LABELS[issue.kind]}</span>
+                    {ringName && <span className="text-gray-500 shrink-0">{ringName}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+            
+            <div className="flex items-center space-x-2 mt-3">
+              <Checkbox 
+                id="accept-topology-issues"
+                checked={acceptedIssues === issuesKey}
+                onCheckedChange={(checked) => setAcceptedIssues(checked === true ? issuesKey : null)}
+              />
+              <Label htmlFor="accept-topology-issues" className="text-sm text-gray-600">
+                Abaikan dan tetap izinkan simpan atau ekspor
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Results */}
       <Card>
         <CardHeader className="pb-2">
@@ -421,13 +1053,64 @@ export default function MeasurementPanel({
           <div className="bg-gray-50 rounded p-4 text-center">
             <p className="text-sm text-gray-600 mb-1">Luas Total</p>
             <div className="text-3xl font-bold text-primary">
-              {totalArea.toFixed(2)} m²
+              {formatArea(totalArea, units.area)}
             </div>
             <p className="text-xs text-gray-500 mt-1">Berdasarkan garis pengukuran Anda</p>
           </div>
           
+          {excludedArea > 0 && (
+            <div className="mt-2 space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Luas Kotor</span>
+                <span className="font-medium text-gray-800">{formatArea(grossArea, units.area)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Dikecualikan</span>
+                <span className="font-medium text-red-600">−{formatArea(excludedArea, units.area)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Luas Bersih</span>
+                <span className="font-medium text-gray-800">{formatArea(totalArea, units.area)}</span>
+              </div>
+            </div>
+          )}
+          
+          {graph.parcels.length > 1 && (
+            <div className="mt-2 space-y-1">
+              {graph.parcels.map((parcel) => (
+                <div key={parcel.id} className="flex justify-between text-sm">
+                  <span className="text-gray-600">{parcel.name}</span>
+                  <span className="font-medium text-gray-800">
+                    {formatArea(parcelSurveys.get(parcel.id)?.netArea ?? 0, units.area)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          {boundaryLineCount >= 3 && (
+            <div className="mt-2 flex justify-between text-sm">
+              <span className="text-gray-600">Kesalahan Penutup {activeRingName}</span>
+              <span className={closingError > 0.01 ? "font-medium text-amber-600" : "font-medium text-gray-800"}>
+                {formatLength(closingError, units.length)}
+              </span>
+            </div>
+          )}
+          
+          {checkLines.map(check => {
+            const difference = Math.abs(check.solved - check.measured);
+            return (
+              <div key={check.lineId} className="mt-1 flex justify-between text-sm">
+                <span className="text-gray-600">Cek Diagonal {formatLength(check.measured, units.length)}</span>
+                <span className={difference > 0.01 ? "font-medium text-amber-600" : "font-medium text-gray-800"}>
+                  selisih {formatLength(difference, units.length)}
+                </span>
+              </div>
+            );
+          })}
+          
           <div className="mt-4 grid grid-cols-3 gap-2">
-            <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700">
+            <Button onClick={handleSave} disabled={readOnly} className="bg-green-600 hover:bg-green-700">
               <Save className="h-4 w-4 mr-1" />
               Simpan
             </Button>
@@ -439,9 +1122,38 @@ export default function MeasurementPanel({
               <FileText className="h-4 w-4 mr-1" />
               PDF
             </Button>
+            <Button onClick={handleExportGeoJson} variant="outline">
+              <Globe className="h-4 w-4 mr-1" />
+              GeoJSON
+            </Button>
+            <Button onClick={() => handleExportKml(false)} variant="outline">
+              <Earth className="h-4 w-4 mr-1" />
+              KML
+            </Button>
+            <Button onClick={() => handleExportKml(true)} variant="outline">
+              <FileArchive className="h-4 w-4 mr-1" />
+              KMZ
+            </Button>
+            <Button onClick={handleExportDxf} variant="outline">
+              <DraftingCompass className="h-4 w-4 mr-1" />
+              DXF
+            </Button>
+            <Button onClick={handleExportShapefile} variant="outline">
+              <Layers className="h-4 w-4 mr-1" />
+              SHP
+            </Button>
           </div>
         </CardContent>
       </Card>
+      
+      {children}
+      
+      {/* Edit history */}
+      <HistoryList 
+        entries={historyEntries}
+        index={historyIndex}
+        onJump={onHistoryJump}
+      />
     </div>
   );
 }
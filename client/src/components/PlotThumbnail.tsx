@@ -0,0 +1,103 @@
+import { useMemo } from "react";
+import { type Line, type PlotGraph, type LengthUnit } from "@shared/schema";
+import { resolveLines, resolveParcelLines, resolveRingLines } from "@shared/measurements";
+import { extractVerticesFromLines, getBoundaryLines } from "@shared/geometry";
+import { formatLength } from "@/lib/utils/units";
+
+// Space (in drawing pixels) kept around the plot inside the thumbnail
+const PADDING = 10;
+
+interface PlotThumbnailProps {
+  graph: PlotGraph;
+  // Label every line with its length in this unit
+  lengthUnit?: LengthUnit;
+  className?: string;
+}
+
+export default function PlotThumbnail({ graph, lengthUnit, className }: PlotThumbnailProps) {
+  // Fit the drawing into the thumbnail whatever its size on the canvas
+  const bounds = useMemo(() => {
+    if (graph.vertices.length === 0) return null;
+
+    const xs = graph.vertices.map(vertex => vertex.x);
+    const ys = graph.vertices.map(vertex => vertex.y);
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    const width = Math.max(...xs) - Math.min(...xs) + PADDING * 2;
+    const height = Math.max(...ys) - Math.min(...ys) + PADDING * 2;
+
+    return { minX, minY, width, height };
+  }, [graph]);
+
+  // One outline per parcel and per excluded area
+  const rings = useMemo(() => {
+    const toPoints = (lines: Line[]) => {
+      if (getBoundaryLines(lines).length < 3) return null;
+      return extractVerticesFromLines(lines).map(point => `${point.x},${point.y}`).join(' ');
+    };
+
+    return graph.parcels.flatMap(parcel => {
+      const outline = toPoints(resolveParcelLines(graph, parcel));
+      const holes = parcel.holes.flatMap(hole => {
+        const points = toPoints(resolveRingLines(graph, hole.edgeIds));
+        return points ? [{ key: `${parcel.id}-${hole.id}`, points }] : [];
+      });
+
+      return outline ? [{ key: `${parcel.id}`, color: parcel.color, points: outline, holes }] : [];
+    });
+  }, [graph]);
+
+  if (!bounds) {
+    return (
+      <div className={`flex items-center justify-center text-xs text-gray-400 ${className ?? ""}`}>
+        No drawing
+      </div>
+    );
+  }
+
+  return (
+    <svg 
+      viewBox={`${bounds.minX} ${bounds.minY} ${bounds.width} ${bounds.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={className}
+    >
+      {rings.map(ring => (
+        <g key={ring.key}>
+          <polygon
+            points={ring.points}
+            fill={ring.color}
+            fillOpacity="0.2"
+            stroke={ring.color}
+            strokeWidth="2"
+            vectorEffect="non-scaling-stroke"
+          />
+          {ring.holes.map(hole => (
+            <polygon
+              key={hole.key}
+              points={hole.points}
+              fill="#FEE2E2"
+              stroke="#DC2626"
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </g>
+      ))}
+
+      {/* Labels sized relative to the drawing so they read the same at any scale */}
+      {lengthUnit && resolveLines(graph).map(line => (
+        <text
+          key={line.id}
+          x={(line.startPoint.x + line.endPoint.x) / 2}
+          y={(line.startPoint.y + line.endPoint.y) / 2}
+          fontSize={Math.max(bounds.width, bounds.height) / 40}
+          fill={line.kind === "diagonal" ? "#D97706" : "#4B5563"}
+          textAnchor="middle"
+          dominantBaseline="middle"
+        >
+          {formatLength(line.length, lengthUnit)}
+        </text>
+      ))}
+    </svg>
+  );
+}
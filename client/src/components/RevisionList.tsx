@@ -0,0 +1,143 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Eye, EyeOff, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { type AccessibleLandPlot, type PlotRevisionSummary, type AreaUnit } from "@shared/schema";
+import { formatArea, toAreaUnit, AREA_UNITS } from "@/lib/utils/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface RevisionListProps {
+  plotId: number;
+  areaUnit: AreaUnit;
+  // Area currently in the editor, each version shows how far it differs
+  currentArea: number;
+  canRestore: boolean;
+  comparingId: number | null;
+  onCompare: (revisionId: number | null) => void;
+  onRestored: (plot: AccessibleLandPlot) => void;
+}
+
+/**
+ * Saved versions of a plot, newest first, to compare against or restore
+ */
+export default function RevisionList({
+  plotId,
+  areaUnit,
+  currentArea,
+  canRestore,
+  comparingId,
+  onCompare,
+  onRestored
+}: RevisionListProps) {
+  const { toast } = useToast();
+
+  const { data: revisions = [] } = useQuery<PlotRevisionSummary[]>({
+    queryKey: [`/api/land-plots/${plotId}/revisions`]
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const res = await apiRequest("POST", `/api/land-plots/${plotId}/revisions/${revisionId}/restore`);
+      return await res.json() as AccessibleLandPlot;
+    },
+    onSuccess: (plot) => {
+      onRestored(plot);
+      toast({
+        title: "Versi Dipulihkan",
+        description: "Pengukuran dikembalikan ke versi yang dipilih"
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Gagal Memulihkan",
+        description: "Terjadi kesalahan saat memulihkan versi ini",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleRestore = (revision: PlotRevisionSummary) => {
+    if (window.confirm("Pulihkan versi ini? Perubahan yang belum disimpan akan hilang.")) {
+      restoreMutation.mutate(revision.id);
+    }
+  };
+
+  const formatDelta = (area: number) => {
+    const delta = toAreaUnit(currentArea - area, areaUnit);
+    const { decimals, symbol } = AREA_UNITS[areaUnit];
+    if (Math.abs(delta) < Math.pow(10, -decimals)) return null;
+
+    return `${delta > 0 ? "+" : ""}${delta.toFixed(decimals)} ${symbol}`;
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Save className="h-4 w-4 mr-2" />
+          Versi Tersimpan
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada versi tersimpan.</p>
+        ) : (
+          <ScrollArea className="h-48">
+            <ol className="space-y-1 pr-3">
+              {[...revisions].reverse().map(revision => {
+                const delta = formatDelta(revision.area);
+                const isComparing = revision.id === comparingId;
+
+                return (
+                  <li
+                    key={revision.id}
+                    className={`flex items-center justify-between gap-2 px-2 py-1 rounded ${
+                      isComparing ? "bg-primary/10" : ""
+                    }`}
+                  >
+                    <div className="min-w-0 text-sm">
+                      <p className="font-medium text-gray-700 truncate">
+                        {new Date(revision.createdAt).toLocaleString('id-ID')}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {revision.username ?? "Tidak diketahui"} · {formatArea(revision.area, areaUnit)}
+                        {delta && <span className="ml-1">({delta} sekarang)</span>}
+                      </p>
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => onCompare(isComparing ? null : revision.id)}
+                        title={isComparing ? "Sembunyikan perbandingan" : "Bandingkan"}
+                        className="h-7 w-7 text-gray-400 hover:text-primary"
+                      >
+                        {isComparing ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                      {canRestore && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRestore(revision)}
+                          disabled={restoreMutation.isPending}
+                          title="Pulihkan"
+                          className="h-7 w-7 text-gray-400 hover:text-primary"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Link2, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { type LandPlot, type ShareRole, type PlotShareWithUser, type ShareLink } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  editor: "Can edit",
+  viewer: "Can view"
+};
+
+interface ShareDialogProps {
+  plot: LandPlot;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ShareDialog({ plot, open, onOpenChange }: ShareDialogProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ShareRole>("viewer");
+  // Last day a new public link works, or empty for no expiry
+  const [expiryDate, setExpiryDate] = useState("");
+  const sharesKey = [`/api/land-plots/${plot.id}/shares`];
+  const linksKey = [`/api/land-plots/${plot.id}/links`];
+
+  const { data: shares = [] } = useQuery<PlotShareWithUser[]>({
+    queryKey: sharesKey,
+    enabled: open
+  });
+
+  const { data: links = [] } = useQuery<ShareLink[]>({
+    queryKey: linksKey,
+    enabled: open
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (share: { username: string; role: ShareRole }) => {
+      await apiRequest("POST", `/api/land-plots/${plot.id}/shares`, share);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      setUsername("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sharing Failed",
+        description: error.message.startsWith("404")
+          ? "No user with that username exists."
+          : "The plot could not be shared. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const unshareMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/land-plots/${plot.id}/shares/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+    }
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async (expiresAt: string | null) => {
+      await apiRequest("POST", `/api/land-plots/${plot.id}/links`, { expiresAt });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      setExpiryDate("");
+    },
+    onError: () => {
+      toast({
+        title: "Link Not Created",
+        description: "The share link could not be created. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      await apiRequest("DELETE", `/api/land-plots/${plot.id}/links/${linkId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+    }
+  });
+
+  const getLinkUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`;
+
+  const handleCopyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(getLinkUrl(link));
+    toast({
+      title: "Link Copied",
+      description: "Anyone with this link can view the plot."
+    });
+  };
+
+  // A link expiring on a date keeps working until the end of that day
+  const handleCreateLink = () => {
+    createLinkMutation.mutate(expiryDate ? new Date(`${expiryDate}T23:59:59`).toISOString() : null);
+  };
+
+  const handleShare = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) {
+      shareMutation.mutate({ username: username.trim(), role });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share "{plot.name}"</DialogTitle>
+          <DialogDescription>
+            Editors can change the measurements; viewers can only open the plot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleShare} className="flex gap-2">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="flex-1"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as ShareRole)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={shareMutation.isPending}>
+            <UserPlus className="h-4 w-4 mr-1" />
+            Share
+          </Button>
+        </form>
+
+        {shares.length === 0 ? (
+          <p className="text-sm text-gray-500">This plot is not shared with anyone yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {shares.map(share => (
+              <li key={share.id} className="flex items-center justify-between py-2">
+                <span className="text-sm font-medium text-gray-800">{share.username}</span>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={share.role}
+                    onValueChange={(value) => shareMutation.mutate({ username: share.username, role: value as ShareRole })}
+                  >
+                    <SelectTrigger className="w-32 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => unshareMutation.mutate(share.userId)}
+                    title="Stop sharing"
+                    className="h-8 w-8 text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Separator />
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-800">Public links</h3>
+          <p className="text-xs text-gray-500 mb-2">Anyone with a link can view the plot without an account.</p>
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="link-expiry" className="text-xs text-gray-600">Expires on (optional)</Label>
+              <Input
+                id="link-expiry"
+                type="date"
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <Button onClick={handleCreateLink} variant="outline" disabled={createLinkMutation.isPending}>
+              <Link2 className="h-4 w-4 mr-1" />
+              Create Link
+            </Button>
+          </div>
+
+          {links.length > 0 && (
+            <ul className="divide-y divide-gray-200 mt-2">
+              {links.map(link => {
+                const expired = link.expiresAt !== null && new Date(link.expiresAt) <= new Date();
+
+                return (
+                  <li key={link.id} className="flex items-center justify-between py-2 gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-mono text-gray-700 truncate">{getLinkUrl(link)}</p>
+                      <p className={`text-xs ${expired ? "text-red-500" : "text-gray-500"}`}>
+                        {link.expiresAt
+                          ? `${expired ? "Expired" : "Expires"} ${new Date(link.expiresAt).toLocaleDateString()}`
+                          : "Never expires"}
+                      </p>
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleCopyLink(link)}
+                        title="Copy link"
+                        className="h-8 w-8 text-gray-400 hover:text-primary"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => revokeLinkMutation.mutate(link.id)}
+                        title="Revoke link"
+                        className="h-8 w-8 text-gray-400 hover:text-red-500"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
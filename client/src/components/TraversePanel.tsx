@@ -0,0 +1,122 @@
+import { useState, useMemo } from "react";
+import { Compass } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { type Line, type Units } from "@shared/schema";
+import {
+  adjustTraverse, formatPrecisionRatio, type TraverseAdjustmentMethod
+} from "@shared/traverse";
+import { formatArea, formatLength, toLengthUnit } from "@/lib/utils/units";
+
+const METHOD_LABELS: Record<TraverseAdjustmentMethod, string> = {
+  compass: "Aturan Kompas (Bowditch)",
+  transit: "Aturan Transit"
+};
+
+// Precision below which a field traverse is usually measured again
+const MIN_PRECISION_RATIO = 5000;
+
+interface TraversePanelProps {
+  lines: Line[];
+  ringName: string;
+  units: Units;
+}
+
+/**
+ * Closure of the active ring walked as a traverse, with the misclosure
+ * distributed by a chosen rule
+ */
+export default function TraversePanel({ lines, ringName, units }: TraversePanelProps) {
+  const [method, setMethod] = useState<TraverseAdjustmentMethod>("compass");
+
+  const traverse = useMemo(() => adjustTraverse(lines, method), [lines, method]);
+
+  if (!traverse) return null;
+
+  const { closure, vertices, adjustedVertices, area, adjustedArea } = traverse;
+  const formatCoordinate = (value: number) => toLengthUnit(value, units.length).toFixed(3);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Compass className="h-4 w-4 mr-2" />
+          Penutupan {ringName}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Salah Penutup Linier</span>
+            <span className="font-medium text-gray-800">{formatLength(closure.linearMisclosure, units.length, 3)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Salah Penutup X / Y</span>
+            <span className="font-medium text-gray-800">
+              {formatCoordinate(closure.misclosureX)} / {formatCoordinate(closure.misclosureY)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Ketelitian</span>
+            <span className={closure.precisionRatio < MIN_PRECISION_RATIO ? "font-medium text-amber-600" : "font-medium text-gray-800"}>
+              {formatPrecisionRatio(closure.precisionRatio)}
+            </span>
+          </div>
+        </div>
+
+        <div className="mt-3">
+          <Label className="text-sm text-gray-600">Metode Koreksi</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as TraverseAdjustmentMethod)}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <table className="w-full mt-3 text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium py-1">Titik</th>
+              <th className="text-right font-medium py-1">X</th>
+              <th className="text-right font-medium py-1">Y</th>
+              <th className="text-right font-medium py-1">X Koreksi</th>
+              <th className="text-right font-medium py-1">Y Koreksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {adjustedVertices.map((vertex, index) => (
+              <tr key={index} className="border-t border-gray-100">
+                <td className="py-1 text-gray-600">{index + 1}</td>
+                <td className="py-1 text-right text-gray-500">{formatCoordinate(vertices[index].x)}</td>
+                <td className="py-1 text-right text-gray-500">{formatCoordinate(vertices[index].y)}</td>
+                <td className="py-1 text-right font-medium text-gray-800">{formatCoordinate(vertex.x)}</td>
+                <td className="py-1 text-right font-medium text-gray-800">{formatCoordinate(vertex.y)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-3 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Luas Sebelum Koreksi</span>
+            <span className="font-medium text-gray-800">{formatArea(area, units.area)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Luas Setelah Koreksi</span>
+            <span className="font-medium text-primary">{formatArea(adjustedArea, units.area)}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
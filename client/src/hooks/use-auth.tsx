@@ -0,0 +1,122 @@
+import * as React from "react"
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query"
+import { type User } from "@shared/schema"
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient"
+import { useToast } from "@/hooks/use-toast"
+
+// The user as the server sends it, without the password hash
+export type PublicUser = Omit<User, "password">
+
+export interface Credentials {
+  username: string
+  password: string
+}
+
+interface AuthContextValue {
+  user: PublicUser | null
+  isLoading: boolean
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>
+  logoutMutation: UseMutationResult<void, Error, void>
+}
+
+const AuthContext = React.createContext<AuthContextValue | null>(null)
+
+// Plots belong to whoever is logged in; drop any cached for someone else
+function clearPlotQueries() {
+  queryClient.removeQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/land-plots"),
+  })
+}
+
+// Server errors arrive as "401: {"message":"..."}"; show just the message
+function getErrorMessage(error: Error) {
+  const body = error.message.replace(/^\d+: /, "")
+  try {
+    return JSON.parse(body).message ?? body
+  } catch {
+    return body
+  }
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { toast } = useToast()
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  })
+
+  const onAuthenticated = (authenticatedUser: PublicUser) => {
+    clearPlotQueries()
+    queryClient.setQueryData(["/api/user"], authenticatedUser)
+  }
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials)
+      return (await res.json()) as PublicUser
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Login Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      })
+    },
+  })
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials)
+      return (await res.json()) as PublicUser
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      })
+    },
+  })
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout")
+    },
+    onSuccess: () => {
+      clearPlotQueries()
+      queryClient.setQueryData(["/api/user"], null)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      })
+    },
+  })
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,93 @@
+import * as React from "react"
+
+const HISTORY_LIMIT = 100
+
+export interface HistoryEntry<T> {
+  label: string
+  state: T
+  // Consecutive commits with the same key (one drag, one typed value)
+  // collapse into a single entry
+  coalesceKey?: string
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[]
+  index: number
+}
+
+type Action<T> =
+  | { type: "COMMIT"; entry: HistoryEntry<T> }
+  | { type: "JUMP"; index: number }
+  | { type: "RESET"; entry: HistoryEntry<T> }
+
+function reducer<T>(history: HistoryState<T>, action: Action<T>): HistoryState<T> {
+  switch (action.type) {
+    case "COMMIT": {
+      const current = history.entries[history.index]
+
+      // Keep extending the latest entry while the same edit continues
+      if (
+        action.entry.coalesceKey &&
+        current.coalesceKey === action.entry.coalesceKey &&
+        history.index === history.entries.length - 1
+      ) {
+        const entries = [...history.entries]
+        entries[history.index] = action.entry
+        return { ...history, entries }
+      }
+
+      // A new edit discards everything that was undone
+      const entries = [...history.entries.slice(0, history.index + 1), action.entry]
+        .slice(-HISTORY_LIMIT)
+      return { entries, index: entries.length - 1 }
+    }
+
+    case "JUMP":
+      if (action.index < 0 || action.index >= history.entries.length) {
+        return history
+      }
+      return { ...history, index: action.index }
+
+    case "RESET":
+      return { entries: [action.entry], index: 0 }
+  }
+}
+
+/**
+ * Keep every committed state with a label so edits can be undone, redone
+ * or jumped back to from a history list
+ */
+export function useHistory<T>(initialState: T, initialLabel: string) {
+  const [history, dispatch] = React.useReducer(
+    reducer<T>,
+    { entries: [{ label: initialLabel, state: initialState }], index: 0 }
+  )
+
+  const commit = React.useCallback((state: T, label: string, coalesceKey?: string) => {
+    dispatch({ type: "COMMIT", entry: { label, state, coalesceKey } })
+  }, [])
+
+  const jumpTo = React.useCallback((index: number) => {
+    dispatch({ type: "JUMP", index })
+  }, [])
+
+  const reset = React.useCallback((state: T, label: string) => {
+    dispatch({ type: "RESET", entry: { label, state } })
+  }, [])
+
+  const undo = React.useCallback(() => jumpTo(history.index - 1), [history.index, jumpTo])
+  const redo = React.useCallback(() => jumpTo(history.index + 1), [history.index, jumpTo])
+
+  return {
+    state: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  }
+}
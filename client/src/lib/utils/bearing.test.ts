@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assertClose } from "@shared/test-helpers";
+import { formatAngle, formatBearing, parseAngle, parseBearing, traverseFromBearings } from "./bearing";
+
+describe("parseAngle", () => {
+  it("reads decimal degrees", () => {
+    assert.equal(parseAngle("45.5"), 45.5);
+    assert.equal(parseAngle(" 12 "), 12);
+  });
+
+  it("reads degrees, minutes and seconds however they are separated", () => {
+    for (const text of ["45°30'15\"", "45 30 15", "45-30-15", "45d30m15s", "45º30′15″"]) {
+      assertClose(parseAngle(text)!, 45 + 30 / 60 + 15 / 3600);
+    }
+    assert.equal(parseAngle("45°30'"), 45.5);
+    assert.equal(parseAngle("45 30.5"), 45 + 30.5 / 60);
+  });
+
+  it("rejects malformed angles", () => {
+    for (const text of ["", "abc", "45 30 15 5", "45.5 30", "45 60", "45 30 60", "-45", "45,5"]) {
+      assert.equal(parseAngle(text), null, text);
+    }
+  });
+});
+
+describe("parseBearing", () => {
+  it("turns quadrant bearings into azimuths", () => {
+    assert.equal(parseBearing("N 45 E"), 45);
+    assert.equal(parseBearing("S 45 E"), 135);
+    assert.equal(parseBearing("S 45 W"), 225);
+    assert.equal(parseBearing("N 45 W"), 315);
+    assert.equal(parseBearing("N 0 W"), 0);
+    assert.equal(parseBearing("s 90 w"), 270);
+    assertClose(parseBearing("S45-30-15W")!, 180 + 45 + 30 / 60 + 15 / 3600);
+    assert.equal(parseBearing("N 45°30' E"), 45.5);
+  });
+
+  it("reads the Indonesian quadrant letters", () => {
+    assert.equal(parseBearing("U 45 T"), 45);
+    assert.equal(parseBearing("S 30 B"), 210);
+    assert.equal(parseBearing("U30B"), 330);
+  });
+
+  it("reads azimuths", () => {
+    assert.equal(parseBearing("225°30'"), 225.5);
+    assert.equal(parseBearing("0"), 0);
+    assert.equal(parseBearing("359.5"), 359.5);
+  });
+
+  it("rejects bearings out of range or malformed", () => {
+    for (const text of ["N 91 E", "360", "X 45 E", "N E", "N 45", "45 E", "N 45 60 E", ""]) {
+      assert.equal(parseBearing(text), null, text);
+    }
+  });
+});
+
+describe("formatBearing", () => {
+  it("writes each quadrant with its angle from north or south", () => {
+    assert.equal(formatBearing(45.5), "N 45°30'00\" E");
+    assert.equal(formatBearing(135), "S 45°00'00\" E");
+    assert.equal(formatBearing(225), "S 45°00'00\" W");
+    assert.equal(formatBearing(315), "N 45°00'00\" W");
+    assert.equal(formatBearing(-45), "N 45°00'00\" W");
+  });
+
+  it("reads back as the same azimuth to the second", () => {
+    for (const azimuth of [0, 12.3456, 90, 179.99, 200.5, 301.25]) {
+      assertClose(parseBearing(formatBearing(azimuth))!, azimuth, 1 / 3600);
+    }
+  });
+
+  it("carries seconds that round up into the minutes and degrees", () => {
+    assert.equal(formatAngle(10.99999), "11°00'00\"");
+  });
+});
+
+describe("traverseFromBearings", () => {
+  it("walks legs with x to the east and y to the north", () => {
+    const traverse = traverseFromBearings([
+      { azimuth: 0, distance: 10 },
+      { azimuth: 90, distance: 10 },
+      { azimuth: 180, distance: 10 },
+      { azimuth: 270, distance: 10 }
+    ]);
+
+    const rounded = traverse.corners.map(point => ({ x: Math.round(point.x), y: Math.round(point.y) }));
+    assert.deepEqual(rounded, [{ x: 0, y: 0 }, { x: 0, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 0 }]);
+    assertClose(traverse.end.x, 0);
+    assertClose(traverse.end.y, 0);
+  });
+
+  it("ends away from the start when the legs do not close", () => {
+    const traverse = traverseFromBearings([
+      { azimuth: 0, distance: 10 },
+      { azimuth: 90, distance: 10 },
+      { azimuth: 180, distance: 10 }
+    ]);
+
+    assert.equal(traverse.corners.length, 3);
+    assertClose(traverse.end.x, 10);
+    assertClose(traverse.end.y, 0);
+  });
+});
@@ -0,0 +1,106 @@
+import { type Point } from "@shared/schema";
+
+/**
+ * Parse an angle in decimal degrees or degrees, minutes and seconds, such as
+ * 45.5, 45°30', 45 30 15, 45-30-15 or 45d30m15s
+ */
+export function parseAngle(input: string): number | null {
+  // A hyphen separates the parts, so one in front would turn -45 into 45
+  const text = input.trim();
+  if (text.startsWith("-")) return null;
+
+  const parts = text
+    .replace(/[°º˚dD'′mM"″sS-]/g, " ")
+    .split(/\s+/)
+    .filter(part => part !== "");
+  if (parts.length === 0 || parts.length > 3) return null;
+  if (!parts.every(part => /^\d+(\.\d+)?$/.test(part))) return null;
+
+  const [degrees, minutes = 0, seconds = 0] = parts.map(Number);
+  // Only the last part given may have a fraction, and minutes and seconds
+  // must stay below 60
+  if (parts.slice(0, -1).some(part => part.includes("."))) return null;
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  return degrees + minutes / 60 + seconds / 3600;
+}
+
+/**
+ * Parse a bearing into an azimuth in degrees clockwise from north. Accepts
+ * quadrant bearings such as "N 45°30' E", "S45-30-15W" or "U 45 T", and azimuths
+ * such as "225°30'" or "225.5".
+ */
+export function parseBearing(input: string): number | null {
+  const text = input.trim().toUpperCase();
+
+  // Indonesian sketches write U(tara), S(elatan), T(imur) and B(arat)
+  const quadrant = text.match(/^([NSU])\s*(.*?)\s*([EWTB])$/);
+  if (quadrant) {
+    const [, northSouth, angleText, eastWest] = quadrant;
+    const angle = parseAngle(angleText);
+    if (angle === null || angle > 90) return null;
+
+    const isNorth = northSouth !== "S";
+    const isEast = eastWest === "E" || eastWest === "T";
+    if (isNorth) return isEast ? angle : (360 - angle) % 360;
+    return isEast ? 180 - angle : 180 + angle;
+  }
+
+  const azimuth = parseAngle(text);
+  if (azimuth === null || azimuth >= 360) return null;
+  return azimuth;
+}
+
+/**
+ * Write an angle as degrees, minutes and whole seconds
+ */
+export function formatAngle(degrees: number): string {
+  let totalSeconds = Math.round(degrees * 3600);
+  const wholeDegrees = Math.floor(totalSeconds / 3600);
+  totalSeconds -= wholeDegrees * 3600;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+
+  return `${wholeDegrees}°${String(minutes).padStart(2, "0")}'${String(seconds).padStart(2, "0")}"`;
+}
+
+/**
+ * Write an azimuth as a quadrant bearing, such as N 45°30'00" E
+ */
+export function formatBearing(azimuth: number): string {
+  const normalized = ((azimuth % 360) + 360) % 360;
+
+  if (normalized <= 90) return `N ${formatAngle(normalized)} E`;
+  if (normalized <= 180) return `S ${formatAngle(180 - normalized)} E`;
+  if (normalized <= 270) return `S ${formatAngle(normalized - 180)} W`;
+  return `N ${formatAngle(360 - normalized)} W`;
+}
+
+/**
+ * A traverse walked from bearings and distances: the corner each leg starts
+ * from, and where the last leg ends. A traverse that closes ends back on the
+ * first corner; the gap between them is its misclosure.
+ */
+export interface BearingTraverse {
+  corners: Point[];
+  end: Point;
+}
+
+/**
+ * Walk a sequence of bearings and distances from the origin, with x to the
+ * east and y to the north
+ */
+export function traverseFromBearings(legs: { azimuth: number; distance: number }[]): BearingTraverse {
+  const points: Point[] = [{ x: 0, y: 0 }];
+
+  for (const leg of legs) {
+    const radians = leg.azimuth * Math.PI / 180;
+    const previous = points[points.length - 1];
+    points.push({
+      x: previous.x + Math.sin(radians) * leg.distance,
+      y: previous.y + Math.cos(radians) * leg.distance
+    });
+  }
+
+  return { corners: points.slice(0, -1), end: points[points.length - 1] };
+}
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { coordinatesToCorners, parseCoordinateText } from "./coordinates";
+
+describe("parseCoordinateText", () => {
+  it("reads bare x, y rows in the given order", () => {
+    const text = "100 200\n110.5 200\n110.5 215.25";
+
+    assert.deepEqual(parseCoordinateText(text, "xy"), {
+      rows: [{ label: "1", x: 100, y: 200 }, { label: "2", x: 110.5, y: 200 }, { label: "3", x: 110.5, y: 215.25 }],
+      skippedLines: []
+    });
+  });
+
+  it("swaps the columns of northing, easting rows", () => {
+    const { rows } = parseCoordinateText("200,100\n200,110", "ne");
+
+    assert.deepEqual(rows.map(row => [row.x, row.y]), [[100, 200], [110, 200]]);
+  });
+
+  it("takes a leading point name and ignores any height after the coordinates", () => {
+    const { rows } = parseCoordinateText("P1\t500000.12\t9300000.5\t12.3\nP2;500010;9300000;12.4", "xy");
+
+    assert.deepEqual(rows, [
+      { label: "P1", x: 500000.12, y: 9300000.5 },
+      { label: "P2", x: 500010, y: 9300000 }
+    ]);
+  });
+
+  it("lets a header row decide which column is which", () => {
+    const text = "Titik,Utara,Timur\n\"A\",9300000,500000\n\"B\",9300010,500000";
+
+    assert.deepEqual(parseCoordinateText(text, "xy").rows, [
+      { label: "A", x: 500000, y: 9300000 },
+      { label: "B", x: 500000, y: 9300010 }
+    ]);
+  });
+
+  it("reads numbers in exponent notation and with a sign", () => {
+    const { rows } = parseCoordinateText("1.5e3 -2.5E-1\n+3 4", "xy");
+
+    assert.deepEqual(rows.map(row => [row.x, row.y]), [[1500, -0.25], [3, 4]]);
+  });
+
+  it("skips blank lines and reports rows it cannot read by line number", () => {
+    const text = "Koordinat tanah\n\n1 2\nP2 x 4\n5\n3 utara";
+    const { rows, skippedLines } = parseCoordinateText(text, "xy");
+
+    assert.deepEqual(rows.map(row => [row.x, row.y]), [[1, 2]]);
+    // An unknown header, a coordinate that is not a number, a lone number,
+    // and a number with a word
+    assert.deepEqual(skippedLines, [1, 4, 5, 6]);
+  });
+
+  it("finds nothing in empty text", () => {
+    assert.deepEqual(parseCoordinateText("", "xy"), { rows: [], skippedLines: [] });
+  });
+});
+
+describe("coordinatesToCorners", () => {
+  it("drops a last corner that closes the list", () => {
+    const square = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 0 }];
+
+    assert.deepEqual(coordinatesToCorners(square), square.slice(0, 3));
+  });
+
+  it("keeps an open list and a single corner as they are", () => {
+    const open = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }];
+
+    assert.deepEqual(coordinatesToCorners(open), open);
+    assert.deepEqual(coordinatesToCorners([{ x: 5, y: 5 }]), [{ x: 5, y: 5 }]);
+  });
+});
@@ -0,0 +1,104 @@
+import { type Point } from "@shared/schema";
+
+// Which coordinate comes first in each row of a list
+export type CoordinateOrder = "xy" | "ne";
+
+export interface CoordinateRow {
+  label: string;
+  // Easting (x) and northing (y)
+  x: number;
+  y: number;
+}
+
+export interface ParsedCoordinates {
+  rows: CoordinateRow[];
+  // One-based line numbers that could not be read
+  skippedLines: number[];
+}
+
+const X_HEADERS = ["x", "e", "east", "easting", "timur"];
+const Y_HEADERS = ["y", "n", "north", "northing", "utara"];
+const LABEL_HEADERS = ["p", "pt", "point", "name", "id", "no", "titik"];
+
+const isNumber = (field: string) => /^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(field);
+
+/**
+ * Split one row of a CSV, tab separated or space separated list
+ */
+function splitFields(line: string): string[] {
+  return line
+    .split(/[,;\t]|\s+/)
+    .map(field => field.trim().replace(/^"(.*)"$/, "$1"))
+    .filter(field => field !== "");
+}
+
+/**
+ * Read a list of corner coordinates as pasted from a spreadsheet or exported
+ * by a total station. A header row naming the columns (X/Y, E/N, Easting/
+ * Northing) decides which is which; without one each row is read in the
+ * given order, as "x, y", "point, x, y" or "point, x, y, z, ...".
+ */
+export function parseCoordinateText(text: string, order: CoordinateOrder): ParsedCoordinates {
+  const lines = text.split(/\r?\n/);
+  const rows: CoordinateRow[] = [];
+  const skippedLines: number[] = [];
+
+  let columns: { label: number | null; x: number; y: number } | null = null;
+
+  lines.forEach((line, index) => {
+    const fields = splitFields(line);
+    if (fields.length === 0) return;
+
+    // A header row, recognised by its column names
+    if (!columns && rows.length === 0 && !fields.some(isNumber)) {
+      const names = fields.map(field => field.toLowerCase());
+      const x = names.findIndex(name => X_HEADERS.includes(name));
+      const y = names.findIndex(name => Y_HEADERS.includes(name));
+      const label = names.findIndex(name => LABEL_HEADERS.includes(name));
+
+      if (x !== -1 && y !== -1) {
+        columns = { label: label === -1 ? null : label, x, y };
+      } else {
+        skippedLines.push(index + 1);
+      }
+      return;
+    }
+
+    let label: string;
+    let first: string | undefined;
+    let second: string | undefined;
+
+    if (columns) {
+      label = columns.label !== null ? fields[columns.label] ?? "" : "";
+      [first, second] = [fields[columns.x], fields[columns.y]];
+    } else {
+      const hasLabel = fields.length >= 3 || !isNumber(fields[0]);
+      label = hasLabel ? fields[0] : "";
+      const [a, b] = hasLabel ? fields.slice(1, 3) : fields.slice(0, 2);
+      [first, second] = order === "xy" ? [a, b] : [b, a];
+    }
+
+    if (first === undefined || second === undefined || !isNumber(first) || !isNumber(second)) {
+      skippedLines.push(index + 1);
+      return;
+    }
+
+    rows.push({ label: label || String(rows.length + 1), x: Number(first), y: Number(second) });
+  });
+
+  return { rows, skippedLines };
+}
+
+/**
+ * Corners of a ring from its coordinate list, dropping a last corner that
+ * repeats the first to close the list
+ */
+export function coordinatesToCorners(points: Point[]): Point[] {
+  const corners = points.map(point => ({ x: point.x, y: point.y }));
+  if (corners.length > 1) {
+    const first = corners[0];
+    const last = corners[corners.length - 1];
+    if (first.x === last.x && first.y === last.y) corners.pop();
+  }
+  return corners;
+}
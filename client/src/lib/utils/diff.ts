@@ -0,0 +1,59 @@
+import { type Point, type Line, type PlotGraph } from "@shared/schema";
+import { resolveLines } from "@shared/measurements";
+
+// Movement (in pixels) and length change (in meters) below which nothing counts as changed
+const MOVE_TOLERANCE = 0.5;
+const LENGTH_TOLERANCE = 0.005;
+
+export interface MovedVertex {
+  id: number;
+  from: Point;
+  to: Point;
+}
+
+export interface ChangedLength {
+  line: Line;
+  previousLength: number;
+}
+
+export interface GraphDiff {
+  movedVertices: MovedVertex[];
+  changedLengths: ChangedLength[];
+  // Lines only in the earlier graph, resolved to their earlier positions
+  removedLines: Line[];
+  // Lines only in the current graph
+  addedLines: Line[];
+}
+
+/**
+ * Compare two versions of a plot, matching corners and edges by their ids
+ */
+export function diffGraphs(previous: PlotGraph, current: PlotGraph): GraphDiff {
+  const previousVertices = new Map(previous.vertices.map(vertex => [vertex.id, vertex]));
+  const previousLines = resolveLines(previous);
+  const currentLines = resolveLines(current);
+  const previousLinesById = new Map(previousLines.map(line => [line.id, line]));
+  const currentLineIds = new Set(currentLines.map(line => line.id));
+
+  const movedVertices = current.vertices.flatMap(vertex => {
+    const earlier = previousVertices.get(vertex.id);
+    if (!earlier) return [];
+    if (Math.abs(earlier.x - vertex.x) < MOVE_TOLERANCE && Math.abs(earlier.y - vertex.y) < MOVE_TOLERANCE) return [];
+
+    return [{ id: vertex.id, from: { x: earlier.x, y: earlier.y }, to: { x: vertex.x, y: vertex.y } }];
+  });
+
+  const changedLengths = currentLines.flatMap(line => {
+    const earlier = previousLinesById.get(line.id);
+    if (!earlier || Math.abs(earlier.length - line.length) < LENGTH_TOLERANCE) return [];
+
+    return [{ line, previousLength: earlier.length }];
+  });
+
+  return {
+    movedVertices,
+    changedLengths,
+    removedLines: previousLines.filter(line => !currentLineIds.has(line.id)),
+    addedLines: currentLines.filter(line => !previousLinesById.has(line.id))
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PlotGraph } from "@shared/schema";
+import { addRingToParcel, createEmptyGraph, createHole } from "@shared/measurements";
+import { calculatePolygonArea, surveyParcel } from "@shared/geometry";
+import { assertClose } from "@shared/test-helpers";
+import { plotToDxf } from "./dxf";
+import { DEFAULT_UNITS } from "./units";
+
+// A 10 m square entered as bearings but drawn lopsided, with a 2 x 3 m pond
+function buildGraph(): PlotGraph {
+  const lopsided = [{ x: 0, y: 0 }, { x: 120, y: 10 }, { x: 90, y: 80 }, { x: 5, y: 100 }];
+  let graph = addRingToParcel(createEmptyGraph(), 1, null, lopsided, [10, 10, 10, 10], [90, 180, 270, 0]);
+  const hole = createHole(graph.parcels[0], "Kolam");
+  graph = { ...graph, parcels: [{ ...graph.parcels[0], holes: [hole] }] };
+  const pond = [{ x: 40, y: 40 }, { x: 60, y: 40 }, { x: 60, y: 70 }, { x: 40, y: 70 }];
+  return addRingToParcel(graph, 1, hole.id, pond, [2, 3, 2, 3]);
+}
+
+const exportDxf = (graph: PlotGraph) => {
+  const parcelSurveys = new Map(graph.parcels.map(parcel => [parcel.id, surveyParcel(graph, parcel)]));
+  return plotToDxf(graph, parcelSurveys, DEFAULT_UNITS, null, null);
+};
+
+type Pair = [number, string];
+
+// The group code/value pairs of a DXF file
+const readPairs = (dxf: string): Pair[] => {
+  const lines = dxf.split("\r\n");
+  const pairs: Pair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    pairs.push([Number(lines[i]), lines[i + 1]]);
+  }
+  return pairs;
+};
+
+// The entities of the ENTITIES section, each as its list of pairs
+const readEntities = (dxf: string): Pair[][] => {
+  const pairs = readPairs(dxf);
+  const start = pairs.findIndex(([code, value], i) => code === 2 && value === "ENTITIES" && pairs[i - 1][1] === "SECTION");
+  const entities: Pair[][] = [];
+
+  for (const pair of pairs.slice(start + 1)) {
+    if (pair[0] === 0 && pair[1] === "ENDSEC") break;
+    if (pair[0] === 0) entities.push([]);
+    entities[entities.length - 1].push(pair);
+  }
+
+  return entities;
+};
+
+const valueOf = (entity: Pair[], code: number) => entity.find(pair => pair[0] === code)?.[1];
+
+describe("plotToDxf", () => {
+  it("is an R2000 file in meters that ends with EOF", () => {
+    const dxf = exportDxf(buildGraph());
+    const pairs = readPairs(dxf);
+
+    assert.deepEqual(pairs.slice(0, 4), [[0, "SECTION"], [2, "HEADER"], [9, "$ACADVER"], [1, "AC1015"]]);
+    assert.equal(pairs[pairs.findIndex(pair => pair[1] === "$INSUNITS") + 1][1], "6");
+    assert.ok(dxf.endsWith("0\r\nEOF\r\n"));
+  });
+
+  it("gives every object its own handle", () => {
+    const handles = readPairs(exportDxf(buildGraph()))
+      .filter(([code], i, pairs) => (code === 5 || code === 105) && pairs[i - 1][0] === 0)
+      .map(([, value]) => value);
+
+    assert.equal(new Set(handles).size, handles.length);
+  });
+
+  it("draws the boundary and holes as surveyed, closed on layer BATAS", () => {
+    const polylines = readEntities(exportDxf(buildGraph())).filter(entity => entity[0][1] === "LWPOLYLINE");
+
+    assert.equal(polylines.length, 2);
+    const areas = polylines.map(entity => {
+      assert.equal(valueOf(entity, 8), "BATAS");
+      assert.equal(valueOf(entity, 70), "1");
+
+      const xs = entity.filter(([code]) => code === 10).map(([, value]) => Number(value));
+      const ys = entity.filter(([code]) => code === 20).map(([, value]) => Number(value));
+      assert.equal(Number(valueOf(entity, 90)), xs.length);
+      return calculatePolygonArea(xs.map((x, i) => ({ x, y: ys[i] })));
+    });
+
+    assertClose(areas[0], 100, 1e-6);
+    assertClose(areas[1], 6, 1e-6);
+  });
+
+  it("labels each line with its length and the parcel with its name and net area", () => {
+    const texts = readEntities(exportDxf(buildGraph())).filter(entity => entity[0][1] === "TEXT");
+
+    const lengths = texts.filter(entity => valueOf(entity, 8) === "UKURAN").map(entity => valueOf(entity, 1));
+    assert.deepEqual(lengths, ["10.00 m", "10.00 m", "10.00 m", "10.00 m", "2.00 m", "3.00 m", "2.00 m", "3.00 m"]);
+
+    // The ² of m² is escaped for AutoCAD's code page
+    const labels = texts.filter(entity => valueOf(entity, 8) === "LUAS").map(entity => valueOf(entity, 1));
+    assert.deepEqual(labels, ["Bidang 1", "94.00 m\\U+00B2"]);
+  });
+
+  it("turns length labels so they never read upside down", () => {
+    const rotations = readEntities(exportDxf(buildGraph()))
+      .filter(entity => valueOf(entity, 8) === "UKURAN")
+      .map(entity => Number(valueOf(entity, 50)));
+
+    assert.ok(rotations.every(rotation => rotation > -90 && rotation <= 90));
+  });
+});
@@ -0,0 +1,255 @@
+import { type Point, type Calibration, type PlotGraph, type Units, type Line } from "@shared/schema";
+import { type ParcelSurvey, calculateCentroid, getBoundaryLines } from "@shared/geometry";
+import { resolveParcelLines, resolveRingLines } from "@shared/measurements";
+import { type GeoTransform } from "@/lib/utils/georeference";
+import { graphToPlaneParcels, surveyedPlaneParcels } from "@/lib/utils/plane";
+import { formatArea, formatLength } from "@/lib/utils/units";
+
+// Layers of the drawing and their AutoCAD colour numbers
+const LAYERS = [
+  { name: "BATAS", color: 5 },   // boundaries and holes, blue
+  { name: "UKURAN", color: 3 },  // edge lengths, green
+  { name: "LUAS", color: 1 }     // parcel names and areas, red
+];
+
+// AutoCAD reads R2000 text in the ANSI code page; anything outside ASCII,
+// such as the ² of m², is written as a \U+ escape
+const encodeText = (text: string) => Array.from(text).map(char => {
+  const code = char.codePointAt(0)!;
+  return code < 128 ? char : `\\U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+}).join("");
+
+const formatNumber = (value: number) => value.toFixed(6);
+
+/**
+ * Collects the group code/value pairs of one section of a DXF file
+ */
+class DxfSection {
+  private pairs: string[] = [];
+
+  constructor(name?: string) {
+    if (name) this.write([0, "SECTION"], [2, name]);
+  }
+
+  write(...pairs: [number, string | number][]): void {
+    for (const [code, value] of pairs) {
+      this.pairs.push(String(code), String(value));
+    }
+  }
+
+  toString(): string {
+    return this.pairs.join("\r\n") + "\r\n";
+  }
+}
+
+interface TextOptions {
+  layer: string;
+  position: Point;
+  height: number;
+  rotation: number;
+  // Vertical alignment: 1 sits the text on the point, 2 centres it there
+  verticalAlignment: 1 | 2;
+}
+
+/**
+ * A DXF R2000 drawing for AutoCAD, in meters. Each closed parcel's boundary
+ * and holes are closed LWPOLYLINEs on layer BATAS, each boundary line is
+ * labelled with its measured length on layer UKURAN, and each parcel's
+ * name and area are written at its centre on layer LUAS. A georeferenced
+ * plot is drawn on its UTM grid; otherwise as surveyed on a local grid.
+ */
+export function plotToDxf(
+  graph: PlotGraph,
+  parcelSurveys: Map<number, ParcelSurvey>,
+  units: Units,
+  calibration: Calibration | null,
+  geoTransform: GeoTransform | null
+): string {
+  const planeParcels = geoTransform
+    ? graphToPlaneParcels(graph, geoTransform.toUtm)
+    : surveyedPlaneParcels(graph, parcelSurveys, calibration);
+
+  // The measured lines of each ring, in the same order as its corners
+  const parcels = graph.parcels.flatMap(parcel => {
+    const boundary = getBoundaryLines(resolveParcelLines(graph, parcel));
+    if (boundary.length < 3) return [];
+
+    const holes = parcel.holes
+      .map(hole => getBoundaryLines(resolveRingLines(graph, hole.edgeIds)))
+      .filter(lines => lines.length >= 3);
+    return [{ parcel, boundary, holes }];
+  });
+
+  // Text is sized to the plot so labels stay legible at any scale
+  const corners = planeParcels.flatMap(planeParcel => planeParcel.outer);
+  const extent = Math.max(
+    Math.max(...corners.map(point => point.x)) - Math.min(...corners.map(point => point.x)),
+    Math.max(...corners.map(point => point.y)) - Math.min(...corners.map(point => point.y))
+  );
+  const textHeight = Math.max(extent / 80, 0.05);
+
+  // Every object in an R2000 file has a unique hexadecimal handle
+  let lastHandle = 0;
+  const nextHandle = () => (++lastHandle).toString(16).toUpperCase();
+
+  const modelSpace = nextHandle();
+  const paperSpace = nextHandle();
+
+  const entities = new DxfSection("ENTITIES");
+
+  const writePolyline = (layer: string, points: Point[]) => {
+    entities.write(
+      [0, "LWPOLYLINE"], [5, nextHandle()], [330, modelSpace],
+      [100, "AcDbEntity"], [8, layer],
+      [100, "AcDbPolyline"], [90, points.length], [70, 1]
+    );
+    for (const point of points) {
+      entities.write([10, formatNumber(point.x)], [20, formatNumber(point.y)]);
+    }
+  };
+
+  const writeText = (text: string, options: TextOptions) => {
+    const x = formatNumber(options.position.x);
+    const y = formatNumber(options.position.y);
+    entities.write(
+      [0, "TEXT"], [5, nextHandle()], [330, modelSpace],
+      [100, "AcDbEntity"], [8, options.layer],
+      [100, "AcDbText"], [10, x], [20, y], [30, 0], [40, formatNumber(options.height)],
+      [1, encodeText(text)], [50, options.rotation.toFixed(4)], [72, 1],
+      [11, x], [21, y], [31, 0],
+      [100, "AcDbText"], [73, options.verticalAlignment]
+    );
+  };
+
+  // Along the side, turned so it never reads upside down
+  const writeLengthLabel = (line: Line, start: Point, end: Point) => {
+    // Rounded as written first, so a side a hair off vertical is not
+    // written as -90
+    let angle = Number((Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI).toFixed(4));
+    if (angle > 90) angle -= 180;
+    if (angle <= -90) angle += 180;
+
+    writeText(formatLength(line.length, units.length), {
+      layer: "UKURAN",
+      position: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+      height: textHeight,
+      rotation: angle,
+      verticalAlignment: 1
+    });
+  };
+
+  const writeRing = (lines: Line[], points: Point[]) => {
+    writePolyline("BATAS", points);
+    lines.forEach((line, i) => writeLengthLabel(line, points[i], points[(i + 1) % points.length]));
+  };
+
+  parcels.forEach(({ parcel, boundary, holes }, i) => {
+    const planeParcel = planeParcels[i];
+    writeRing(boundary, planeParcel.outer);
+    holes.forEach((hole, j) => writeRing(hole, planeParcel.holes[j].points));
+
+    const center = calculateCentroid(planeParcel.outer);
+    writeText(parcel.name, {
+      layer: "LUAS",
+      position: { x: center.x, y: center.y + textHeight * 0.9 },
+      height: textHeight * 1.2,
+      rotation: 0,
+      verticalAlignment: 2
+    });
+    writeText(formatArea(parcelSurveys.get(parcel.id)?.netArea ?? 0, units.area), {
+      layer: "LUAS",
+      position: { x: center.x, y: center.y - textHeight * 0.9 },
+      height: textHeight,
+      rotation: 0,
+      verticalAlignment: 2
+    });
+  });
+
+  const tables = new DxfSection("TABLES");
+  const writeTable = (name: string, entries: (tableHandle: string) => void, count: number) => {
+    const tableHandle = nextHandle();
+    tables.write([0, "TABLE"], [2, name], [5, tableHandle], [330, 0], [100, "AcDbSymbolTable"], [70, count]);
+    entries(tableHandle);
+    tables.write([0, "ENDTAB"]);
+  };
+
+  const symbolRecord = (type: string, subclass: string, owner: string) => {
+    tables.write([0, type], [5, nextHandle()], [330, owner], [100, "AcDbSymbolTableRecord"], [100, subclass]);
+  };
+
+  writeTable("VPORT", () => {}, 0);
+  writeTable("LTYPE", owner => {
+    for (const name of ["ByBlock", "ByLayer", "Continuous"]) {
+      symbolRecord("LTYPE", "AcDbLinetypeTableRecord", owner);
+      tables.write([2, name], [70, 0], [3, name === "Continuous" ? "Solid line" : ""], [72, 65], [73, 0], [40, 0]);
+    }
+  }, 3);
+  writeTable("LAYER", owner => {
+    for (const layer of [{ name: "0", color: 7 }, ...LAYERS]) {
+      symbolRecord("LAYER", "AcDbLayerTableRecord", owner);
+      tables.write([2, layer.name], [70, 0], [62, layer.color], [6, "Continuous"]);
+    }
+  }, LAYERS.length + 1);
+  writeTable("STYLE", owner => {
+    symbolRecord("STYLE", "AcDbTextStyleTableRecord", owner);
+    tables.write([2, "Standard"], [70, 0], [40, 0], [41, 1], [50, 0], [71, 0], [42, 2.5], [3, "txt"], [4, ""]);
+  }, 1);
+  writeTable("VIEW", () => {}, 0);
+  writeTable("UCS", () => {}, 0);
+  writeTable("APPID", owner => {
+    symbolRecord("APPID", "AcDbRegAppTableRecord", owner);
+    tables.write([2, "ACAD"], [70, 0]);
+  }, 1);
+  writeTable("DIMSTYLE", owner => {
+    tables.write(
+      [0, "DIMSTYLE"], [105, nextHandle()], [330, owner],
+      [100, "AcDbSymbolTableRecord"], [100, "AcDbDimStyleTableRecord"], [2, "Standard"], [70, 0]
+    );
+  }, 1);
+  writeTable("BLOCK_RECORD", owner => {
+    for (const [handle, name] of [[modelSpace, "*Model_Space"], [paperSpace, "*Paper_Space"]]) {
+      tables.write(
+        [0, "BLOCK_RECORD"], [5, handle], [330, owner],
+        [100, "AcDbSymbolTableRecord"], [100, "AcDbBlockTableRecord"], [2, name]
+      );
+    }
+  }, 2);
+  tables.write([0, "ENDSEC"]);
+
+  const blocks = new DxfSection("BLOCKS");
+  for (const [owner, name] of [[modelSpace, "*Model_Space"], [paperSpace, "*Paper_Space"]]) {
+    blocks.write(
+      [0, "BLOCK"], [5, nextHandle()], [330, owner], [100, "AcDbEntity"], [8, "0"],
+      [100, "AcDbBlockBegin"], [2, name], [70, 0], [10, 0], [20, 0], [30, 0], [3, name], [1, ""]
+    );
+    blocks.write([0, "ENDBLK"], [5, nextHandle()], [330, owner], [100, "AcDbEntity"], [8, "0"], [100, "AcDbBlockEnd"]);
+  }
+  blocks.write([0, "ENDSEC"]);
+
+  const objects = new DxfSection("OBJECTS");
+  const rootDictionary = nextHandle();
+  const groupDictionary = nextHandle();
+  objects.write(
+    [0, "DICTIONARY"], [5, rootDictionary], [330, 0], [100, "AcDbDictionary"], [281, 1],
+    [3, "ACAD_GROUP"], [350, groupDictionary],
+    [0, "DICTIONARY"], [5, groupDictionary], [330, rootDictionary], [100, "AcDbDictionary"], [281, 1],
+    [0, "ENDSEC"]
+  );
+
+  entities.write([0, "ENDSEC"]);
+
+  // Written last, once every handle has been given out
+  const header = new DxfSection("HEADER");
+  header.write(
+    [9, "$ACADVER"], [1, "AC1015"],
+    [9, "$DWGCODEPAGE"], [3, "ANSI_1252"],
+    [9, "$HANDSEED"], [5, nextHandle()],
+    // Drawing units are meters
+    [9, "$INSUNITS"], [70, 6],
+    [9, "$MEASUREMENT"], [70, 1],
+    [0, "ENDSEC"],
+    [0, "SECTION"], [2, "CLASSES"], [0, "ENDSEC"]
+  );
+
+  return [header, tables, blocks, entities, objects].join("") + "0\r\nEOF\r\n";
+}
@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Point, PlotGraph } from "@shared/schema";
+import { addEdgeToParcel, addRingToParcel, createEmptyGraph, createHole } from "@shared/measurements";
+import { calculatePolygonArea, surveyParcel } from "@shared/geometry";
+import { assertClose } from "@shared/test-helpers";
+import { parseGeoJson, plotToGeoJson } from "./geojson";
+import { DEFAULT_UNITS } from "./units";
+
+const surveysOf = (graph: PlotGraph) => new Map(graph.parcels.map(parcel => [parcel.id, surveyParcel(graph, parcel)]));
+
+const exportLocal = (graph: PlotGraph) => plotToGeoJson(graph, surveysOf(graph), DEFAULT_UNITS, null, null);
+
+// The area a GIS would work out from a polygon's rings
+const polygonArea = (coordinates: [number, number][][]) => {
+  const [outer, ...holes] = coordinates.map(ring => calculatePolygonArea(ring.slice(0, -1).map(([x, y]) => ({ x, y }))));
+  return outer - holes.reduce((sum, area) => sum + area, 0);
+};
+
+// Drawn as a 100 pixel square
+const square: Point[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+describe("plotToGeoJson", () => {
+  it("exports a plot without a location as surveyed, not as drawn", () => {
+    // Measured as a 3 x 4 m rectangle with its 5 m diagonal, and a 1 m
+    // square pond drawn much larger than measured
+    let graph = addRingToParcel(createEmptyGraph(), 1, null, square, [3, 4, 3, 4]);
+    const diagonalId = graph.edges.length + 1;
+    graph = addEdgeToParcel({
+      ...graph,
+      edges: [...graph.edges, {
+        id: diagonalId,
+        startVertexId: graph.edges[0].startVertexId,
+        endVertexId: graph.edges[1].endVertexId,
+        length: 5,
+        kind: "diagonal",
+        manualLength: true
+      }]
+    }, 1, diagonalId);
+    const hole = createHole(graph.parcels[0]);
+    graph = { ...graph, parcels: [{ ...graph.parcels[0], holes: [hole] }] };
+    const pond = [{ x: 40, y: 40 }, { x: 60, y: 40 }, { x: 60, y: 60 }, { x: 40, y: 60 }];
+    graph = addRingToParcel(graph, 1, hole.id, pond, [1, 1, 1, 1]);
+
+    const [feature] = exportLocal(graph).features;
+
+    assertClose(feature.properties.area as number, 11);
+    assertClose(polygonArea(feature.geometry.coordinates), feature.properties.area as number);
+  });
+
+  it("follows entered bearings rather than the drawn directions", () => {
+    // A 10 m square entered as bearings, drawn lopsided
+    const drawn = [{ x: 0, y: 0 }, { x: 120, y: 10 }, { x: 90, y: 80 }, { x: 5, y: 100 }];
+    const graph = addRingToParcel(createEmptyGraph(), 1, null, drawn, [10, 10, 10, 10], [90, 180, 270, 0]);
+
+    const [feature] = exportLocal(graph).features;
+
+    assertClose(feature.properties.area as number, 100);
+    assertClose(polygonArea(feature.geometry.coordinates), 100);
+  });
+
+  it("names the local grid and closes each ring counterclockwise", () => {
+    const graph = addRingToParcel(createEmptyGraph(), 1, null, square, [10, 10, 10, 10]);
+    const collection = exportLocal(graph);
+    const ring = collection.features[0].geometry.coordinates[0];
+
+    assert.equal(collection.crs?.properties.name, "LOCAL:meters");
+    assert.deepEqual(ring[0], ring[ring.length - 1]);
+    assert.ok(ring.slice(0, -1).every(([x, y]) => x >= -1e-9 && y >= -1e-9));
+  });
+
+  it("reads its own export back", () => {
+    const graph = addRingToParcel(createEmptyGraph(), 1, null, square, [10, 10, 10, 10]);
+    const imported = parseGeoJson(JSON.stringify(exportLocal(graph)));
+
+    assert.equal(imported.utmZone, null);
+    assert.deepEqual(imported.units, DEFAULT_UNITS);
+    assert.equal(imported.parcels[0].name, "Bidang 1");
+    assertClose(calculatePolygonArea(imported.parcels[0].outer), 100);
+  });
+});
+
+describe("parseGeoJson", () => {
+  it("rejects text that is not JSON", () => {
+    assert.throws(() => parseGeoJson("{"), /not valid JSON/);
+  });
+
+  it("rejects a file without a usable polygon", () => {
+    const lineString = { type: "Feature", geometry: { type: "LineString", coordinates: [[0, 0], [1, 1]] }, properties: {} };
+    assert.throws(() => parseGeoJson(JSON.stringify(lineString)), /No Polygon/);
+  });
+});
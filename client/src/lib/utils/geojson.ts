@@ -0,0 +1,209 @@
+import { type Point, type Calibration, type PlotGraph, type Units, unitsSchema } from "@shared/schema";
+import { type ParcelSurvey, calculateSignedArea, getBoundaryLines } from "@shared/geometry";
+import { resolveParcelLines } from "@shared/measurements";
+import { coordinatesToCorners } from "@/lib/utils/coordinates";
+import {
+  type ImportedParcels, type PlaneParcel, graphToPlaneParcels, surveyedPlaneParcels
+} from "@/lib/utils/plane";
+import { type GeoTransform, projectParcelsToUtm } from "@/lib/utils/georeference";
+import { toAreaUnit } from "@/lib/utils/units";
+
+type Position = [number, number];
+
+interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][];
+}
+
+interface GeoJsonFeature {
+  type: "Feature";
+  geometry: PolygonGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  // Pre-RFC 7946 member naming the coordinate system when it is not WGS84
+  crs?: { type: "name"; properties: { name: string } };
+  features: GeoJsonFeature[];
+}
+
+// Names the plain meter grid a plot is exported on when it has no location
+const LOCAL_CRS_NAME = "LOCAL:meters";
+
+/**
+ * A closed GeoJSON ring, turned counterclockwise for an outer boundary and
+ * clockwise for a hole as RFC 7946 asks
+ */
+function toRing(points: Point[], counterclockwise: boolean): Position[] {
+  const isCounterclockwise = calculateSignedArea(points) > 0;
+  const ordered = isCounterclockwise === counterclockwise ? points : [...points].reverse();
+  const ring = ordered.map(point => [point.x, point.y] as Position);
+  return [...ring, ring[0]];
+}
+
+/**
+ * Every closed parcel as a Polygon Feature. A georeferenced plot is given
+ * in longitude/latitude; otherwise it is laid out in meters as surveyed on
+ * a local grid named in the collection's crs member.
+ * The measured area, perimeter and line lengths go in its properties, in
+ * meters and square meters.
+ */
+export function plotToGeoJson(
+  graph: PlotGraph,
+  parcelSurveys: Map<number, ParcelSurvey>,
+  units: Units,
+  calibration: Calibration | null,
+  geoTransform: GeoTransform | null
+): GeoJsonFeatureCollection {
+  const planeParcels = geoTransform
+    ? graphToPlaneParcels(graph, point => {
+      const { lat, lon } = geoTransform.toGeo(point);
+      return { x: lon, y: lat };
+    })
+    : surveyedPlaneParcels(graph, parcelSurveys, calibration);
+  const closedParcels = graph.parcels.filter(parcel =>
+    getBoundaryLines(resolveParcelLines(graph, parcel)).length >= 3
+  );
+
+  const features = closedParcels.map((parcel, i): GeoJsonFeature => {
+    const planeParcel = planeParcels[i];
+    const survey = parcelSurveys.get(parcel.id);
+    const netArea = survey?.netArea ?? 0;
+
+    return {
+      type: "Feature",
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          toRing(planeParcel.outer, true),
+          ...planeParcel.holes.map(hole => toRing(hole.points, false))
+        ]
+      },
+      properties: {
+        name: parcel.name,
+        area: netArea,
+        grossArea: survey?.grossArea ?? 0,
+        perimeter: survey?.boundary.perimeter ?? 0,
+        units,
+        areaInUnit: toAreaUnit(netArea, units.area),
+        lineLengths: getBoundaryLines(resolveParcelLines(graph, parcel)).map(line => line.length),
+        holes: parcel.holes.map(hole => ({
+          name: hole.name,
+          area: survey?.holes.get(hole.id)?.area ?? 0
+        }))
+      }
+    };
+  });
+
+  return geoTransform
+    ? { type: "FeatureCollection", features }
+    : { type: "FeatureCollection", crs: { type: "name", properties: { name: LOCAL_CRS_NAME } }, features };
+}
+
+/**
+ * Collect the polygons of a GeoJSON object, each with the properties of
+ * the feature it belongs to
+ */
+function collectPolygons(value: unknown): { rings: unknown[]; properties: Record<string, unknown> }[] {
+  if (!value || typeof value !== "object") return [];
+  const object = value as Record<string, unknown>;
+
+  switch (object.type) {
+    case "FeatureCollection":
+      return Array.isArray(object.features) ? object.features.flatMap(collectPolygons) : [];
+    case "Feature": {
+      const properties = object.properties && typeof object.properties === "object"
+        ? object.properties as Record<string, unknown>
+        : {};
+      return collectPolygons(object.geometry).map(polygon => ({ ...polygon, properties }));
+    }
+    case "GeometryCollection":
+      return Array.isArray(object.geometries) ? object.geometries.flatMap(collectPolygons) : [];
+    case "Polygon":
+      return Array.isArray(object.coordinates) ? [{ rings: object.coordinates, properties: {} }] : [];
+    case "MultiPolygon":
+      return Array.isArray(object.coordinates)
+        ? object.coordinates.filter(Array.isArray).map(rings => ({ rings, properties: {} }))
+        : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The corners of a ring, or null when it is not a list of at least three
+ * numeric positions
+ */
+function readRing(ring: unknown): Point[] | null {
+  if (!Array.isArray(ring)) return null;
+
+  const points = ring.map(position =>
+    Array.isArray(position) && typeof position[0] === "number" && typeof position[1] === "number"
+      ? { x: position[0], y: position[1] }
+      : null
+  );
+  if (points.some(point => point === null || !isFinite(point.x) || !isFinite(point.y))) return null;
+
+  const corners = coordinatesToCorners(points as Point[]);
+  return corners.length >= 3 ? corners : null;
+}
+
+/**
+ * Whether the coordinates are longitude/latitude: the default for GeoJSON
+ * unless a crs member names another system, and only if they are in range
+ */
+function isGeographic(data: unknown, points: Point[]): boolean {
+  const crs = (data as { crs?: { properties?: { name?: unknown } } }).crs;
+  const crsName = crs?.properties?.name;
+  if (typeof crsName === "string" && !/CRS84|4326/i.test(crsName)) return false;
+
+  return points.every(point => Math.abs(point.x) <= 180 && Math.abs(point.y) <= 90);
+}
+
+/**
+ * Read the polygons of a GeoJSON file as parcels in meters. Each polygon
+ * becomes a parcel and its inner rings its holes. Longitude/latitude
+ * coordinates are projected to the UTM zone of the middle of the data;
+ * projected coordinates are taken as meters.
+ */
+export function parseGeoJson(text: string): ImportedParcels {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const polygons = collectPolygons(data).flatMap(({ rings, properties }) => {
+    const [outer, ...holes] = rings.map(readRing);
+    if (!outer) return [];
+    return [{ outer, holes: holes.filter((hole): hole is Point[] => hole !== null), properties }];
+  });
+
+  if (polygons.length === 0) {
+    throw new Error("No Polygon or MultiPolygon with three or more corners was found");
+  }
+
+  const parcels = polygons.map(({ outer, holes, properties }): PlaneParcel => {
+    const name = typeof properties.name === "string" ? properties.name : "";
+    const holeNames = Array.isArray(properties.holes) ? properties.holes : [];
+
+    return {
+      name,
+      outer,
+      holes: holes.map((points, i) => {
+        const hole = holeNames[i] as { name?: unknown } | undefined;
+        return { name: typeof hole?.name === "string" ? hole.name : "", points };
+      })
+    };
+  });
+
+  const recordedUnits = unitsSchema.safeParse(polygons[0].properties.units);
+  const units = recordedUnits.success ? recordedUnits.data : null;
+
+  const allPoints = parcels.flatMap(parcel => [parcel.outer, ...parcel.holes.map(hole => hole.points)].flat());
+  return isGeographic(data, allPoints)
+    ? { ...projectParcelsToUtm(parcels), units }
+    : { parcels, utmZone: null, units };
+}
@@ -0,0 +1,149 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Georeference, Point } from "@shared/schema";
+import { addRingToParcel, createEmptyGraph } from "@shared/measurements";
+import { fromUtm, toUtm } from "@shared/projection";
+import { assertClose } from "@shared/test-helpers";
+import {
+  fitGeoreference, georeferenceFromPlane, measureGeoreferencedArea, projectParcelsToUtm, setControlPoint
+} from "./georeference";
+import { planeParcelsToGraph } from "./plane";
+
+const zone = { zone: 48, hemisphere: "S" } as const;
+const origin = { x: 700000, y: 9300000 };
+
+// Drawn as a 100 pixel square measured as 10 m, so 0.1 m a pixel
+const square: Point[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+const graph = addRingToParcel(createEmptyGraph(), 1, null, square, [10, 10, 10, 10]);
+
+// Where a canvas point lies with canvas up turned the given degrees
+// clockwise from north and drawn at the given scale
+const placeOnGrid = (point: Point, rotation: number, metersPerPixel: number): Point => {
+  const angle = rotation * Math.PI / 180;
+  const x = point.x * metersPerPixel;
+  const y = -point.y * metersPerPixel;
+  return {
+    x: origin.x + x * Math.cos(angle) + y * Math.sin(angle),
+    y: origin.y - x * Math.sin(angle) + y * Math.cos(angle)
+  };
+};
+
+// Pin the given vertices where the rotation and scale put them
+const pinned = (vertexIds: number[], rotation: number, metersPerPixel: number): Georeference => ({
+  crs: "EPSG:4326",
+  controlPoints: vertexIds.map(vertexId => {
+    const vertex = graph.vertices.find(vertex => vertex.id === vertexId)!;
+    return { vertexId, ...fromUtm(placeOnGrid(vertex, rotation, metersPerPixel), zone) };
+  })
+});
+
+describe("fitGeoreference", () => {
+  it("has no transform without control points on the drawing", () => {
+    assert.equal(fitGeoreference(graph, null, null), null);
+    assert.equal(fitGeoreference(graph, { crs: "EPSG:4326", controlPoints: [] }, null), null);
+    assert.equal(fitGeoreference(graph, { crs: "EPSG:4326", controlPoints: [{ vertexId: 99, lat: -6.2, lon: 106.8 }] }, null), null);
+  });
+
+  it("recovers the rotation and scale the control points were placed with", () => {
+    const transform = fitGeoreference(graph, pinned([1, 2, 3], 30, 0.2), null)!;
+
+    assert.deepEqual(transform.zone, zone);
+    assertClose(transform.rotation, 30, 1e-6);
+    assertClose(transform.metersPerPixel, 0.2, 1e-6);
+    for (const residual of Array.from(transform.residuals.values())) {
+      assertClose(residual, 0, 1e-3);
+    }
+
+    // The corner left unpinned lands where it should too
+    const corner = transform.toUtm(square[3]);
+    const expected = placeOnGrid(square[3], 30, 0.2);
+    assertClose(corner.x, expected.x, 1e-3);
+    assertClose(corner.y, expected.y, 1e-3);
+
+    const geo = transform.toGeo(square[3]);
+    const back = toUtm(geo, zone);
+    assertClose(back.x, expected.x, 1e-3);
+    assertClose(back.y, expected.y, 1e-3);
+  });
+
+  it("reports how far each pin is from the fitted drawing", () => {
+    const georeference = pinned([1, 2], 0, 0.1);
+    // Moves the third pin 1 m east of where the drawing puts it
+    const moved = placeOnGrid(square[2], 0, 0.1);
+    const withError = setControlPoint(georeference, { vertexId: 3, ...fromUtm({ x: moved.x + 1, y: moved.y }, zone) });
+
+    // Least squares spreads the error over all three pins
+    const { residuals } = fitGeoreference(graph, withError, null)!;
+    assert.deepEqual(Array.from(residuals.keys()), [1, 2, 3]);
+    for (const residual of Array.from(residuals.values())) {
+      assert.ok(residual > 0.2 && residual < 1, `${residual}`);
+    }
+  });
+
+  it("takes a single pin as north up at the drawing's own scale", () => {
+    const transform = fitGeoreference(graph, pinned([2], 45, 0.5), null)!;
+
+    assertClose(transform.rotation, 0);
+    assertClose(transform.metersPerPixel, 0.1);
+    const pin = transform.toUtm(square[1]);
+    const expected = placeOnGrid(square[1], 45, 0.5);
+    assertClose(pin.x, expected.x, 1e-3);
+    assertClose(pin.y, expected.y, 1e-3);
+    // Canvas down is south
+    assertClose(transform.toUtm(square[2]).y, pin.y - 10, 1e-3);
+  });
+});
+
+describe("setControlPoint", () => {
+  it("replaces an earlier pin on the same vertex and keeps the others", () => {
+    let georeference = setControlPoint(null, { vertexId: 1, lat: -6.2, lon: 106.8 });
+    georeference = setControlPoint(georeference, { vertexId: 2, lat: -6.3, lon: 106.9 });
+    georeference = setControlPoint(georeference, { vertexId: 1, lat: -6.4, lon: 107 });
+
+    assert.deepEqual(georeference, {
+      crs: "EPSG:4326",
+      controlPoints: [{ vertexId: 2, lat: -6.3, lon: 106.9 }, { vertexId: 1, lat: -6.4, lon: 107 }]
+    });
+  });
+});
+
+describe("measureGeoreferencedArea", () => {
+  it("measures the drawing on the grid and on the ellipsoid", () => {
+    const transform = fitGeoreference(graph, pinned([1, 2, 3, 4], 30, 0.2), null)!;
+    const { gridArea, geodesicArea } = measureGeoreferencedArea(graph, transform);
+
+    assertClose(gridArea, 400, 1e-3);
+    // The grid's scale is within a part in a thousand of the ground here
+    assertClose(geodesicArea, 400, 0.4);
+  });
+});
+
+describe("projectParcelsToUtm and georeferenceFromPlane", () => {
+  const field = [{ x: 700000, y: 9300000 }, { x: 700020, y: 9300000 }, { x: 700020, y: 9300030 }, { x: 700000, y: 9300030 }];
+  const lonLat = field.map(corner => fromUtm(corner, zone)).map(point => ({ x: point.lon, y: point.lat }));
+
+  it("projects longitude and latitude onto the zone of the data", () => {
+    const { parcels, utmZone } = projectParcelsToUtm([{ name: "Sawah", outer: lonLat, holes: [] }]);
+
+    assert.deepEqual(utmZone, zone);
+    assert.equal(parcels[0].name, "Sawah");
+    parcels[0].outer.forEach((corner, i) => {
+      assertClose(corner.x, field[i].x, 1e-3);
+      assertClose(corner.y, field[i].y, 1e-3);
+    });
+  });
+
+  it("pins every drawn corner back to where it was read from", () => {
+    const { parcels } = projectParcelsToUtm([{ name: "Sawah", outer: lonLat, holes: [] }]);
+    const drawn = planeParcelsToGraph(parcels, null);
+    const georeference = georeferenceFromPlane(drawn, parcels, zone);
+
+    assert.equal(georeference.controlPoints.length, 4);
+    const transform = fitGeoreference(drawn, georeference, null)!;
+    assertClose(transform.rotation, 0, 1e-6);
+    for (const residual of Array.from(transform.residuals.values())) {
+      assertClose(residual, 0, 1e-3);
+    }
+    assertClose(measureGeoreferencedArea(drawn, transform).gridArea, 600, 0.01);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  type Point, type GeoPoint, type Calibration, type PlotGraph, type Georeference, type ControlPoint
+} from "@shared/schema";
+import { resolveParcelLines, resolveRingLines } from "@shared/measurements";
+import { calculatePolygonArea, estimateMetersPerPixel, getBoundaryLines } from "@shared/geometry";
+import {
+  type UtmZone, calculateGeodesicArea, fromUtm, getUtmZone, toUtm
+} from "@shared/projection";
+import { type PlaneParcel } from "@/lib/utils/plane";
+import { canvasPlacement } from "@/lib/utils/placement";
+
+/**
+ * How the canvas lies on the earth: a rotation, scale and shift from
+ * canvas pixels to the local UTM zone, fitted to the control points
+ */
+export interface GeoTransform {
+  zone: UtmZone;
+  toUtm: (point: Point) => Point;
+  toGeo: (point: Point) => GeoPoint;
+  metersPerPixel: number;
+  // Clockwise angle of canvas "up" from grid north, in degrees
+  rotation: number;
+  // How far each control point's vertex lands from its pinned place, in meters
+  residuals: Map<number, number>;
+}
+
+/**
+ * Fit the canvas to the control points of a georeference. Two or more
+ * points fix the position, rotation and scale by least squares; a single
+ * point fixes the position only, with the drawing's own scale and canvas
+ * up taken as north. Control points of vertices no longer in the graph are
+ * ignored; with none left there is no transform.
+ */
+export function fitGeoreference(
+  graph: PlotGraph,
+  georeference: Georeference | null,
+  calibration: Calibration | null
+): GeoTransform | null {
+  const vertices = new Map(graph.vertices.map(vertex => [vertex.id, vertex]));
+  const controlPoints = (georeference?.controlPoints ?? []).filter(point => vertices.has(point.vertexId));
+  if (controlPoints.length === 0) return null;
+
+  const meanGeo = {
+    lat: controlPoints.reduce((sum, point) => sum + point.lat, 0) / controlPoints.length,
+    lon: controlPoints.reduce((sum, point) => sum + point.lon, 0) / controlPoints.length
+  };
+  const zone = getUtmZone(meanGeo);
+
+  // Canvas y points down; flip it so both sets run counterclockwise alike
+  const source = controlPoints.map(point => {
+    const vertex = vertices.get(point.vertexId)!;
+    return { x: vertex.x, y: -vertex.y };
+  });
+  const target = controlPoints.map(point => toUtm(point, zone));
+
+  const sourceCenter = centerOf(source);
+  const targetCenter = centerOf(target);
+
+  // Similarity transform x' = a x - b y, y' = b x + a y about the centres
+  let a = estimateMetersPerPixel(graph, calibration);
+  let b = 0;
+
+  let sumSquares = 0;
+  let sumDot = 0;
+  let sumCross = 0;
+  source.forEach((point, i) => {
+    const sx = point.x - sourceCenter.x;
+    const sy = point.y - sourceCenter.y;
+    const tx = target[i].x - targetCenter.x;
+    const ty = target[i].y - targetCenter.y;
+    sumSquares += sx * sx + sy * sy;
+    sumDot += sx * tx + sy * ty;
+    sumCross += sx * ty - sy * tx;
+  });
+
+  // Control points on coincident vertices say nothing about scale or rotation
+  if (controlPoints.length >= 2 && sumSquares > 0 && (sumDot !== 0 || sumCross !== 0)) {
+    a = sumDot / sumSquares;
+    b = sumCross / sumSquares;
+  }
+
+  const toUtmPoint = (point: Point): Point => {
+    const x = point.x - sourceCenter.x;
+    const y = -point.y - sourceCenter.y;
+    return { x: targetCenter.x + a * x - b * y, y: targetCenter.y + b * x + a * y };
+  };
+
+  const residuals = new Map(controlPoints.map((point, i) => {
+    const fitted = toUtmPoint(vertices.get(point.vertexId)!);
+    return [point.vertexId, Math.hypot(fitted.x - target[i].x, fitted.y - target[i].y)];
+  }));
+
+  return {
+    zone,
+    toUtm: toUtmPoint,
+    toGeo: point => fromUtm(toUtmPoint(point), zone),
+    metersPerPixel: Math.hypot(a, b),
+    rotation: -Math.atan2(b, a) * 180 / Math.PI,
+    residuals
+  };
+}
+
+function centerOf(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+  };
+}
+
+/**
+ * Pin or move a vertex to a place, replacing any earlier pin on it
+ */
+export function setControlPoint(georeference: Georeference | null, controlPoint: ControlPoint): Georeference {
+  const others = (georeference?.controlPoints ?? []).filter(point => point.vertexId !== controlPoint.vertexId);
+  return { crs: "EPSG:4326", controlPoints: [...others, controlPoint] };
+}
+
+/**
+ * Area of the drawing as it lies on the earth, net of holes: on the UTM
+ * grid in meters, and on the ellipsoid as a check on the grid's scale
+ */
+export interface GeoreferencedArea {
+  gridArea: number;
+  geodesicArea: number;
+}
+
+export function measureGeoreferencedArea(graph: PlotGraph, transform: GeoTransform): GeoreferencedArea {
+  const ringArea = (lines: ReturnType<typeof resolveRingLines>): GeoreferencedArea => {
+    const corners = getBoundaryLines(lines).map(line => line.startPoint);
+    if (corners.length < 3) return { gridArea: 0, geodesicArea: 0 };
+
+    return {
+      gridArea: calculatePolygonArea(corners.map(transform.toUtm)),
+      geodesicArea: calculateGeodesicArea(corners.map(transform.toGeo))
+    };
+  };
+
+  return graph.parcels.reduce((total, parcel) => {
+    const outer = ringArea(resolveParcelLines(graph, parcel));
+    const holes = parcel.holes.map(hole => ringArea(resolveRingLines(graph, hole.edgeIds)));
+
+    return {
+      gridArea: total.gridArea + Math.max(outer.gridArea - holes.reduce((sum, hole) => sum + hole.gridArea, 0), 0),
+      geodesicArea: total.geodesicArea +
+        Math.max(outer.geodesicArea - holes.reduce((sum, hole) => sum + hole.geodesicArea, 0), 0)
+    };
+  }, { gridArea: 0, geodesicArea: 0 });
+}
+
+/**
+ * Project parcels given in longitude (x) and latitude (y) onto the grid
+ * of the UTM zone of the middle of the data
+ */
+export function projectParcelsToUtm(parcels: PlaneParcel[]): { parcels: PlaneParcel[]; utmZone: UtmZone } {
+  const corners = parcels.flatMap(parcel => [parcel.outer, ...parcel.holes.map(hole => hole.points)].flat());
+  const utmZone = getUtmZone({
+    lat: corners.reduce((sum, point) => sum + point.y, 0) / corners.length,
+    lon: corners.reduce((sum, point) => sum + point.x, 0) / corners.length
+  });
+
+  const project = (points: Point[]) => points.map(point => toUtm({ lat: point.y, lon: point.x }, utmZone));
+
+  return {
+    parcels: parcels.map(parcel => ({
+      name: parcel.name,
+      outer: project(parcel.outer),
+      holes: parcel.holes.map(hole => ({ name: hole.name, points: project(hole.points) }))
+    })),
+    utmZone
+  };
+}
+
+/**
+ * Pin every corner of parcels read in UTM meters to its place, once the
+ * parcels have been drawn with planeParcelsToGraph without a calibration
+ */
+export function georeferenceFromPlane(graph: PlotGraph, planeParcels: PlaneParcel[], zone: UtmZone): Georeference {
+  const corners = planeParcels.flatMap(parcel => [parcel.outer, ...parcel.holes.map(hole => hole.points)].flat());
+  const place = canvasPlacement(corners, null);
+
+  const controlPoints = corners.flatMap(corner => {
+    const placed = place(corner);
+    const vertex = graph.vertices.find(vertex => vertex.x === placed.x && vertex.y === placed.y);
+    return vertex ? [{ vertexId: vertex.id, ...fromUtm(corner, zone) }] : [];
+  });
+
+  // Shared corners appear once per ring
+  const unique = new Map(controlPoints.map(point => [point.vertexId, point]));
+  return { crs: "EPSG:4326", controlPoints: Array.from(unique.values()) };
+}
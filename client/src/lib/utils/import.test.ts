@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { strToU8, zipSync } from "fflate";
+import { DOMParser } from "linkedom";
+import type { Point } from "@shared/schema";
+import { addRingToParcel, createEmptyGraph } from "@shared/measurements";
+import { calculatePolygonArea, surveyParcel } from "@shared/geometry";
+import { fromUtm } from "@shared/projection";
+import { assertClose } from "@shared/test-helpers";
+import { fitGeoreference } from "./georeference";
+import { readParcelFile } from "./import";
+import { kmlToKmz, plotToKml } from "./kml";
+import { DEFAULT_UNITS } from "./units";
+
+// Node has no DOMParser for the KML reader to use
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
+
+const zone = { zone: 48, hemisphere: "S" } as const;
+
+// A 20 x 30 m field in UTM zone 48S, as "lon,lat" tuples closed back to the start
+const toTuples = (corners: Point[]) => [...corners, corners[0]]
+  .map(corner => fromUtm(corner, zone))
+  .map(point => `${point.lon},${point.lat},0`)
+  .join(" ");
+const field = [{ x: 700000, y: 9300000 }, { x: 700020, y: 9300000 }, { x: 700020, y: 9300030 }, { x: 700000, y: 9300030 }];
+const pond = [{ x: 700005, y: 9300005 }, { x: 700005, y: 9300010 }, { x: 700010, y: 9300010 }, { x: 700010, y: 9300005 }];
+
+const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Desa</name>
+    <Placemark>
+      <name>Sawah</name>
+      <Polygon>
+        <outerBoundaryIs><LinearRing><coordinates>${toTuples(field)}</coordinates></LinearRing></outerBoundaryIs>
+        <innerBoundaryIs><LinearRing><coordinates>${toTuples(pond)}</coordinates></LinearRing></innerBoundaryIs>
+      </Polygon>
+    </Placemark>
+  </Document>
+</kml>`;
+
+const geoJson = JSON.stringify({
+  type: "Feature",
+  properties: { name: "Sawah" },
+  geometry: { type: "Polygon", coordinates: [field.map(corner => fromUtm(corner, zone)).map(point => [point.lon, point.lat])] }
+});
+
+const fileOf = (content: string | Uint8Array, name: string) => new File([content], name);
+
+describe("readParcelFile", () => {
+  it("reads GeoJSON from .geojson and .json files", async () => {
+    for (const name of ["sawah.geojson", "sawah.json"]) {
+      const { format, imported } = await readParcelFile(fileOf(geoJson, name));
+
+      assert.equal(format, "GeoJSON");
+      assert.deepEqual(imported.utmZone, zone);
+      assertClose(calculatePolygonArea(imported.parcels[0].outer), 600, 0.01);
+    }
+  });
+
+  it("reads a KML polygon with its hole, named after its placemark", async () => {
+    const { format, imported } = await readParcelFile(fileOf(kml, "Sawah.KML"));
+    const [parcel] = imported.parcels;
+
+    assert.equal(format, "KML");
+    assert.deepEqual(imported.utmZone, zone);
+    assert.equal(imported.units, null);
+    assert.equal(parcel.name, "Sawah");
+    // The closing corner is dropped
+    assert.equal(parcel.outer.length, 4);
+    assertClose(calculatePolygonArea(parcel.outer), 600, 0.01);
+    assert.equal(parcel.holes.length, 1);
+    assertClose(calculatePolygonArea(parcel.holes[0].points), 25, 0.01);
+  });
+
+  it("reads the KML document inside a KMZ archive, by name or else the first one", async () => {
+    const { format, imported } = await readParcelFile(fileOf(kmlToKmz(kml), "sawah.kmz"));
+    assert.equal(format, "KMZ");
+    assert.equal(imported.parcels[0].name, "Sawah");
+
+    const renamed = zipSync({ "images/readme.txt": strToU8("-"), "Sawah.kml": strToU8(kml) });
+    const { imported: fromRenamed } = await readParcelFile(fileOf(renamed, "sawah.kmz"));
+    assert.equal(fromRenamed.parcels[0].name, "Sawah");
+  });
+
+  it("rejects a KMZ that is not a zip archive or holds no KML", async () => {
+    await assert.rejects(readParcelFile(fileOf(strToU8(kml), "sawah.kmz")), /not a valid KMZ archive/);
+
+    const withoutKml = zipSync({ "readme.txt": strToU8("Sawah") });
+    await assert.rejects(readParcelFile(fileOf(withoutKml, "sawah.kmz")), /holds no KML document/);
+  });
+
+  it("rejects KML without a polygon of three or more corners", async () => {
+    const twoCorners = kml.replace(toTuples(field), "106.8,-6.2 106.9,-6.2");
+
+    await assert.rejects(readParcelFile(fileOf(twoCorners, "sawah.kml")), /No Polygon/);
+    // A browser reports the broken XML itself, linkedom just finds no polygon
+    await assert.rejects(readParcelFile(fileOf("<kml><Placemark>", "sawah.kml")), /not valid KML|No Polygon/);
+  });
+
+  it("rejects a GeoJSON file that is not JSON", async () => {
+    await assert.rejects(readParcelFile(fileOf(kml, "sawah.geojson")), /not valid JSON/);
+  });
+
+  it("reads back a plot exported as KML", async () => {
+    const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const graph = addRingToParcel(createEmptyGraph(), 1, null, square, [10, 10, 10, 10]);
+    const parcelSurveys = new Map(graph.parcels.map(parcel => [parcel.id, surveyParcel(graph, parcel)]));
+    const geoTransform = fitGeoreference(graph, { crs: "EPSG:4326", controlPoints: [{ vertexId: 1, lat: -6.2, lon: 106.8 }] }, null)!;
+
+    const exported = plotToKml(graph, parcelSurveys, DEFAULT_UNITS, geoTransform, "Sawah");
+    const { imported } = await readParcelFile(fileOf(kmlToKmz(exported), "sawah.kmz"));
+
+    assert.equal(imported.parcels.length, 1);
+    assert.equal(imported.parcels[0].name, "Bidang 1");
+    assertClose(calculatePolygonArea(imported.parcels[0].outer), 100, 0.01);
+  });
+});
@@ -0,0 +1,27 @@
+import { parseGeoJson } from "@/lib/utils/geojson";
+import { parseKml, parseKmz } from "@/lib/utils/kml";
+import { type ImportedParcels } from "@/lib/utils/plane";
+
+// File types a plot can be imported from, as offered by the file picker
+export const IMPORT_FILE_TYPES = [
+  ".geojson", ".json", ".kml", ".kmz",
+  "application/geo+json", "application/json",
+  "application/vnd.google-earth.kml+xml", "application/vnd.google-earth.kmz"
+].join(",");
+
+/**
+ * Read the parcels of a GeoJSON, KML or KMZ file, told apart by the file
+ * name's extension
+ */
+export async function readParcelFile(file: File): Promise<{ format: string; imported: ImportedParcels }> {
+  const extension = file.name.toLowerCase().split(".").pop();
+
+  switch (extension) {
+    case "kmz":
+      return { format: "KMZ", imported: parseKmz(new Uint8Array(await file.arrayBuffer())) };
+    case "kml":
+      return { format: "KML", imported: parseKml(await file.text()) };
+    default:
+      return { format: "GeoJSON", imported: parseGeoJson(await file.text()) };
+  }
+}
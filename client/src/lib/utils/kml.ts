@@ -0,0 +1,208 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { type Point, type GeoPoint, type PlotGraph, type Units } from "@shared/schema";
+import { type ParcelSurvey, calculateCentroid, getBoundaryLines } from "@shared/geometry";
+import { resolveParcelLines, resolveRingLines } from "@shared/measurements";
+import { coordinatesToCorners } from "@/lib/utils/coordinates";
+import { type GeoTransform, projectParcelsToUtm } from "@/lib/utils/georeference";
+import { type ImportedParcels, type PlaneParcel } from "@/lib/utils/plane";
+import { formatArea, formatLength } from "@/lib/utils/units";
+
+const KML_NAMESPACE = "http://www.opengis.net/kml/2.2";
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;");
+
+// KML colours are written alpha, blue, green, red
+function toKmlColor(hex: string, alpha: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return match ? `${alpha}${match[3]}${match[2]}${match[1]}`.toLowerCase() : `${alpha}ff0000`;
+}
+
+const toCoordinate = (point: GeoPoint) => `${point.lon.toFixed(8)},${point.lat.toFixed(8)},0`;
+
+// A closed ring of coordinates, as a LinearRing must be
+const toRingCoordinates = (corners: GeoPoint[]) => [...corners, corners[0]].map(toCoordinate).join(" ");
+
+/**
+ * A KML document for Google Earth with each closed parcel as a polygon,
+ * its boundary lines labelled with their measured lengths and a placemark
+ * at its centre giving its area. The plot must be georeferenced.
+ */
+export function plotToKml(
+  graph: PlotGraph,
+  parcelSurveys: Map<number, ParcelSurvey>,
+  units: Units,
+  geoTransform: GeoTransform,
+  name: string
+): string {
+  const closedParcels = graph.parcels.filter(parcel =>
+    getBoundaryLines(resolveParcelLines(graph, parcel)).length >= 3
+  );
+
+  // Shared styles must sit in the document for styleUrl to find them
+  const parcelStyles = closedParcels.map(parcel => `
+    <Style id="parcel-${parcel.id}">
+      <LineStyle><color>${toKmlColor(parcel.color, "ff")}</color><width>2</width></LineStyle>
+      <PolyStyle><color>${toKmlColor(parcel.color, "40")}</color></PolyStyle>
+    </Style>`).join("");
+
+  const folders = closedParcels.map(parcel => {
+    const boundary = getBoundaryLines(resolveParcelLines(graph, parcel));
+
+    const survey = parcelSurveys.get(parcel.id);
+    const outer = boundary.map(line => geoTransform.toGeo(line.startPoint));
+    const holes = parcel.holes.flatMap(hole => {
+      const holeBoundary = getBoundaryLines(resolveRingLines(graph, hole.edgeIds));
+      return holeBoundary.length >= 3 ? [holeBoundary] : [];
+    });
+
+    const innerBoundaries = holes.map(holeBoundary => `
+        <innerBoundaryIs><LinearRing><coordinates>${toRingCoordinates(holeBoundary.map(line => geoTransform.toGeo(line.startPoint)))}</coordinates></LinearRing></innerBoundaryIs>`
+    ).join("");
+
+    // Google Earth only labels points, so each line is labelled at its middle
+    const edgeLabels = [...boundary, ...holes.flat()].map(line => {
+      const middle: Point = {
+        x: (line.startPoint.x + line.endPoint.x) / 2,
+        y: (line.startPoint.y + line.endPoint.y) / 2
+      };
+      return `
+        <Placemark>
+          <name>${escapeXml(formatLength(line.length, units.length))}</name>
+          <styleUrl>#edge-label</styleUrl>
+          <Point><coordinates>${toCoordinate(geoTransform.toGeo(middle))}</coordinates></Point>
+        </Placemark>`;
+    }).join("");
+
+    const areaText = formatArea(survey?.netArea ?? 0, units.area);
+    const center = geoTransform.toGeo(calculateCentroid(boundary.map(line => line.startPoint)));
+
+    return `
+    <Folder>
+      <name>${escapeXml(parcel.name)}</name>
+      <Placemark>
+        <name>${escapeXml(parcel.name)}</name>
+        <description>${escapeXml(`Luas ${areaText}`)}</description>
+        <styleUrl>#parcel-${parcel.id}</styleUrl>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>${toRingCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>${innerBoundaries}
+        </Polygon>
+      </Placemark>
+      <Placemark>
+        <name>${escapeXml(`${parcel.name}: ${areaText}`)}</name>
+        <description>${escapeXml(`Keliling ${formatLength(survey?.boundary.perimeter ?? 0, units.length)}`)}</description>
+        <styleUrl>#area-label</styleUrl>
+        <Point><coordinates>${toCoordinate(center)}</coordinates></Point>
+      </Placemark>
+      <Folder>
+        <name>Sisi</name>${edgeLabels}
+      </Folder>
+    </Folder>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="${KML_NAMESPACE}">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <Style id="edge-label">
+      <IconStyle><scale>0</scale></IconStyle>
+      <LabelStyle><scale>0.8</scale></LabelStyle>
+    </Style>
+    <Style id="area-label">
+      <IconStyle><scale>0.8</scale></IconStyle>
+      <LabelStyle><scale>1</scale></LabelStyle>
+    </Style>${parcelStyles}${folders.join("")}
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * A KMZ archive: the KML document zipped as doc.kml, as Google Earth expects
+ */
+export function kmlToKmz(kml: string): Uint8Array {
+  return zipSync({ "doc.kml": strToU8(kml) });
+}
+
+/**
+ * The corners of a KML coordinates list of "lon,lat[,alt]" tuples
+ */
+function readCoordinates(text: string): Point[] {
+  return coordinatesToCorners(text.trim().split(/\s+/).flatMap(tuple => {
+    const [lon, lat] = tuple.split(",").map(Number);
+    return isFinite(lon) && isFinite(lat) ? [{ x: lon, y: lat }] : [];
+  }));
+}
+
+// Name of the placemark a polygon belongs to; a document or folder name
+// further up is not the polygon's
+function placemarkName(polygon: Element): string {
+  let element = polygon.parentElement;
+  while (element && element.localName !== "Placemark") {
+    element = element.parentElement;
+  }
+
+  const name = element && Array.from(element.children).find(child => child.localName === "name");
+  return name?.textContent?.trim() ?? "";
+}
+
+/**
+ * Read the polygons of a KML document as parcels, projected to the UTM zone
+ * of the middle of the data. Each Polygon becomes a parcel named after its
+ * placemark, with its inner boundaries as holes.
+ */
+export function parseKml(text: string): ImportedParcels {
+  const kml = new DOMParser().parseFromString(text, "application/xml");
+  if (kml.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid KML");
+  }
+
+  const parcels: PlaneParcel[] = Array.from(kml.getElementsByTagNameNS("*", "Polygon")).flatMap(polygon => {
+    const ringOf = (boundary: Element) => {
+      const coordinates = boundary.getElementsByTagNameNS("*", "coordinates")[0];
+      return coordinates ? readCoordinates(coordinates.textContent ?? "") : [];
+    };
+
+    const outerBoundary = polygon.getElementsByTagNameNS("*", "outerBoundaryIs")[0];
+    const outer = outerBoundary ? ringOf(outerBoundary) : [];
+    if (outer.length < 3) return [];
+
+    const holes = Array.from(polygon.getElementsByTagNameNS("*", "innerBoundaryIs"))
+      .map(ringOf)
+      .filter(points => points.length >= 3)
+      .map(points => ({ name: "", points }));
+
+    return [{ name: placemarkName(polygon), outer, holes }];
+  });
+
+  if (parcels.length === 0) {
+    throw new Error("No Polygon with three or more corners was found");
+  }
+
+  return { ...projectParcelsToUtm(parcels), units: null };
+}
+
+/**
+ * Read the KML document inside a KMZ archive
+ */
+export function parseKmz(data: Uint8Array): ImportedParcels {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error("The file is not a valid KMZ archive");
+  }
+
+  // The main document is doc.kml by convention, or else the first .kml file
+  const kmlName = "doc.kml" in files
+    ? "doc.kml"
+    : Object.keys(files).find(fileName => fileName.toLowerCase().endsWith(".kml"));
+  if (!kmlName) {
+    throw new Error("The KMZ archive holds no KML document");
+  }
+
+  return parseKml(strFromU8(files[kmlName]));
+}
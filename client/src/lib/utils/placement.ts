@@ -0,0 +1,45 @@
+import { type Point, type Calibration } from "@shared/schema";
+import { getMetersPerPixel } from "@shared/geometry";
+
+// Middle of the drawing area, and the size an uncalibrated shape is drawn at
+const CANVAS_CENTER: Point = { x: 350, y: 275 };
+const FIT_SIZE = 400;
+
+/**
+ * Where survey points (in meters, y to the north) go on the canvas, centred
+ * in the drawing area. With a calibration the shape is drawn to its scale;
+ * without one it is sized to fit. The returned function places any point
+ * the same way, so points can be matched with where they were drawn.
+ */
+export function canvasPlacement(points: Point[], calibration: Calibration | null): (point: Point) => Point {
+  if (points.length === 0) return () => ({ ...CANVAS_CENTER });
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  const metersPerPixel = calibration ? getMetersPerPixel(calibration) : 0;
+  const extent = Math.max(maxX - minX, maxY - minY);
+  const pixelsPerMeter = metersPerPixel > 0
+    ? 1 / metersPerPixel
+    : extent > 0 ? FIT_SIZE / extent : 1;
+
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  // The canvas y axis points down, so north is flipped to point up
+  return point => ({
+    x: CANVAS_CENTER.x + (point.x - centerX) * pixelsPerMeter,
+    y: CANVAS_CENTER.y - (point.y - centerY) * pixelsPerMeter
+  });
+}
+
+/**
+ * Place survey points on the canvas as canvasPlacement does
+ */
+export function placeOnCanvas(points: Point[], calibration: Calibration | null): Point[] {
+  return points.map(canvasPlacement(points, calibration));
+}
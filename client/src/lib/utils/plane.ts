@@ -0,0 +1,145 @@
+import { type Point, type Line, type Calibration, type PlotGraph, type Units } from "@shared/schema";
+import {
+  addRingToParcel, createHole, createParcel, createEmptyGraph, resolveParcelLines, resolveRingLines
+} from "@shared/measurements";
+import {
+  type ParcelSurvey, type SurveyedPolygon, calculateDistance, estimateMetersPerPixel, getBoundaryLines
+} from "@shared/geometry";
+import { type UtmZone } from "@shared/projection";
+import { placeOnCanvas } from "@/lib/utils/placement";
+
+/**
+ * A parcel laid out on a flat plane in meters, x to the east and y to the
+ * north, as exchanged with GIS and CAD files. Rings are not closed: the
+ * last corner is not repeated.
+ */
+export interface PlaneParcel {
+  name: string;
+  outer: Point[];
+  holes: { name: string; points: Point[] }[];
+}
+
+/**
+ * Parcels read from a GIS file, in meters. Parcels that were given in
+ * longitude/latitude are on the grid of their UTM zone.
+ */
+export interface ImportedParcels {
+  parcels: PlaneParcel[];
+  utmZone: UtmZone | null;
+  // Units recorded by this app's own export, if the file has them
+  units: Units | null;
+}
+
+/**
+ * The corners of every closed parcel of the drawing, carried from the
+ * canvas onto a plane by the given projection
+ */
+export function graphToPlaneParcels(graph: PlotGraph, toPlane: (point: Point) => Point): PlaneParcel[] {
+  const ringCorners = (lines: ReturnType<typeof resolveRingLines>) => {
+    const boundary = getBoundaryLines(lines);
+    return boundary.length >= 3 ? boundary.map(line => toPlane(line.startPoint)) : null;
+  };
+
+  return graph.parcels.flatMap(parcel => {
+    const outer = ringCorners(resolveParcelLines(graph, parcel));
+    if (!outer) return [];
+
+    const holes = parcel.holes.flatMap(hole => {
+      const points = ringCorners(resolveRingLines(graph, hole.edgeIds));
+      return points ? [{ name: hole.name, points }] : [];
+    });
+
+    return [{ name: parcel.name, outer, holes }];
+  });
+}
+
+/**
+ * Every closed parcel as surveyed, in meters on a local grid with the
+ * bottom-left at the origin. Each ring takes the shape solved from its
+ * measured lengths, bearings and diagonals, so it encloses the area the
+ * plot reports, and sits where the drawing puts its first corner, to the
+ * drawing's scale. A ring the survey could not solve corner for corner
+ * keeps its drawn shape, so corner i always starts boundary line i.
+ */
+export function surveyedPlaneParcels(
+  graph: PlotGraph,
+  parcelSurveys: Map<number, ParcelSurvey>,
+  calibration: Calibration | null
+): PlaneParcel[] {
+  const metersPerPixel = estimateMetersPerPixel(graph, calibration);
+
+  // Still with y pointing down the canvas, as the survey is solved
+  const ringCorners = (lines: Line[], survey: SurveyedPolygon | undefined) => {
+    const boundary = getBoundaryLines(lines);
+    if (boundary.length < 3) return null;
+
+    const drawn = boundary.map(line => ({ x: line.startPoint.x * metersPerPixel, y: line.startPoint.y * metersPerPixel }));
+    if (!survey || survey.vertices.length !== boundary.length) return drawn;
+
+    const [origin] = survey.vertices;
+    return survey.vertices.map(vertex => ({
+      x: drawn[0].x + vertex.x - origin.x,
+      y: drawn[0].y + vertex.y - origin.y
+    }));
+  };
+
+  const parcels = graph.parcels.flatMap(parcel => {
+    const survey = parcelSurveys.get(parcel.id);
+    const outer = ringCorners(resolveParcelLines(graph, parcel), survey?.boundary);
+    if (!outer) return [];
+
+    const holes = parcel.holes.flatMap(hole => {
+      const points = ringCorners(resolveRingLines(graph, hole.edgeIds), survey?.holes.get(hole.id));
+      return points ? [{ name: hole.name, points }] : [];
+    });
+
+    return [{ name: parcel.name, outer, holes }];
+  });
+
+  // The canvas y axis points down, so it is flipped to point north
+  const corners = parcels.flatMap(parcel => [parcel.outer, ...parcel.holes.map(hole => hole.points)].flat());
+  const minX = Math.min(...corners.map(point => point.x));
+  const maxY = Math.max(...corners.map(point => point.y));
+  const toPlane = (point: Point) => ({ x: point.x - minX, y: maxY - point.y });
+
+  return parcels.map(parcel => ({
+    name: parcel.name,
+    outer: parcel.outer.map(toPlane),
+    holes: parcel.holes.map(hole => ({ name: hole.name, points: hole.points.map(toPlane) }))
+  }));
+}
+
+/**
+ * Build a drawing from parcels laid out in meters, fitted on the canvas
+ * together so neighbours keep their shared corners. Every line takes its
+ * length from the coordinates at either end.
+ */
+export function planeParcelsToGraph(planeParcels: PlaneParcel[], calibration: Calibration | null): PlotGraph {
+  const rings = planeParcels.flatMap(parcel => [parcel.outer, ...parcel.holes.map(hole => hole.points)]);
+  const placed = placeOnCanvas(rings.flat(), calibration);
+
+  let offset = 0;
+  const placeRing = (ring: Point[]) => {
+    const corners = placed.slice(offset, offset + ring.length);
+    offset += ring.length;
+    return corners;
+  };
+  const ringLengths = (ring: Point[]) => ring.map((point, i) => calculateDistance(point, ring[(i + 1) % ring.length]));
+
+  let graph: PlotGraph = { vertices: [], edges: [], parcels: [] };
+
+  for (const planeParcel of planeParcels) {
+    let parcel = createParcel(graph.parcels, planeParcel.name || undefined);
+    for (const hole of planeParcel.holes) {
+      parcel = { ...parcel, holes: [...parcel.holes, createHole(parcel, hole.name || undefined)] };
+    }
+    graph = { ...graph, parcels: [...graph.parcels, parcel] };
+
+    graph = addRingToParcel(graph, parcel.id, null, placeRing(planeParcel.outer), ringLengths(planeParcel.outer));
+    planeParcel.holes.forEach((hole, i) => {
+      graph = addRingToParcel(graph, parcel.id, parcel.holes[i].id, placeRing(hole.points), ringLengths(hole.points));
+    });
+  }
+
+  return graph.parcels.length > 0 ? graph : createEmptyGraph();
+}
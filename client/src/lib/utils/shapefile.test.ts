@@ -0,0 +1,160 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { strFromU8, unzipSync } from "fflate";
+import type { Point, PlotGraph } from "@shared/schema";
+import { addRingToParcel, createEmptyGraph, createHole, createParcel } from "@shared/measurements";
+import { calculatePolygonArea, calculateSignedArea, surveyParcel } from "@shared/geometry";
+import { assertClose } from "@shared/test-helpers";
+import { fitGeoreference } from "./georeference";
+import { plotToShapefile } from "./shapefile";
+import { DEFAULT_UNITS } from "./units";
+
+const surveysOf = (graph: PlotGraph) => new Map(graph.parcels.map(parcel => [parcel.id, surveyParcel(graph, parcel)]));
+
+// Two parcels side by side: a 10 m square entered as bearings but drawn
+// lopsided, with a 2 x 3 m pond, and a 5 x 10 m strip drawn to scale
+const lopsided = [{ x: 0, y: 0 }, { x: 120, y: 10 }, { x: 90, y: 80 }, { x: 5, y: 100 }];
+const pond = [{ x: 40, y: 40 }, { x: 60, y: 40 }, { x: 60, y: 70 }, { x: 40, y: 70 }];
+const strip = [{ x: 200, y: 0 }, { x: 250, y: 0 }, { x: 250, y: 100 }, { x: 200, y: 100 }];
+
+function buildGraph(): PlotGraph {
+  let graph = addRingToParcel(createEmptyGraph(), 1, null, lopsided, [10, 10, 10, 10], [90, 180, 270, 0]);
+  const hole = createHole(graph.parcels[0], "Kolam");
+  graph = { ...graph, parcels: [{ ...graph.parcels[0], holes: [hole] }] };
+  graph = addRingToParcel(graph, 1, hole.id, pond, [2, 3, 2, 3]);
+
+  const second = createParcel(graph.parcels, "Bidang 2");
+  graph = { ...graph, parcels: [...graph.parcels, second] };
+  return addRingToParcel(graph, second.id, null, strip, [5, 10, 5, 10]);
+}
+
+const exportFiles = (graph: PlotGraph, georeferenced = false) => {
+  const geoTransform = georeferenced
+    ? fitGeoreference(graph, { crs: "EPSG:4326", controlPoints: [{ vertexId: 1, lat: -6.2, lon: 106.8 }] }, null)
+    : null;
+  return unzipSync(plotToShapefile(graph, surveysOf(graph), DEFAULT_UNITS, null, geoTransform, "bidang"));
+};
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+interface ShapeRecord {
+  number: number;
+  contentLength: number;
+  rings: Point[][];
+}
+
+// Read the polygon records of a .shp file
+function readRecords(shp: Uint8Array): ShapeRecord[] {
+  const view = viewOf(shp);
+  const records: ShapeRecord[] = [];
+
+  let offset = 100;
+  while (offset < shp.length) {
+    const number = view.getInt32(offset, false);
+    const contentLength = view.getInt32(offset + 4, false);
+    const content = offset + 8;
+
+    assert.equal(view.getInt32(content, true), 5);
+    const partCount = view.getInt32(content + 36, true);
+    const pointCount = view.getInt32(content + 40, true);
+    const starts = Array.from({ length: partCount }, (_, i) => view.getInt32(content + 44 + 4 * i, true));
+    const pointsAt = content + 44 + 4 * partCount;
+    const points = Array.from({ length: pointCount }, (_, i) => ({
+      x: view.getFloat64(pointsAt + 16 * i, true),
+      y: view.getFloat64(pointsAt + 16 * i + 8, true)
+    }));
+
+    records.push({
+      number,
+      contentLength,
+      rings: starts.map((start, i) => points.slice(start, starts[i + 1] ?? pointCount))
+    });
+    offset = content + contentLength * 2;
+  }
+
+  return records;
+}
+
+describe("plotToShapefile", () => {
+  it("zips the geometry, index, attributes and code page, with a .prj only when georeferenced", () => {
+    assert.deepEqual(Object.keys(exportFiles(buildGraph())).sort(), ["bidang.cpg", "bidang.dbf", "bidang.shp", "bidang.shx"]);
+    assert.equal(strFromU8(exportFiles(buildGraph())["bidang.cpg"]), "UTF-8");
+
+    const georeferenced = exportFiles(buildGraph(), true);
+    assert.match(strFromU8(georeferenced["bidang.prj"]), /^PROJCS\["WGS_1984_UTM_Zone_48S"/);
+  });
+
+  it("writes .shp and .shx headers whose lengths are the file sizes in 16-bit words", () => {
+    const files = exportFiles(buildGraph());
+
+    for (const bytes of [files["bidang.shp"], files["bidang.shx"]]) {
+      const view = viewOf(bytes);
+      assert.equal(view.getInt32(0, false), 9994);
+      assert.equal(view.getInt32(24, false) * 2, bytes.length);
+      assert.equal(view.getInt32(28, true), 1000);
+      assert.equal(view.getInt32(32, true), 5);
+    }
+  });
+
+  it("writes one record per parcel, indexed by the .shx", () => {
+    const files = exportFiles(buildGraph());
+    const records = readRecords(files["bidang.shp"]);
+    const shx = viewOf(files["bidang.shx"]);
+
+    assert.deepEqual(records.map(record => record.number), [1, 2]);
+    assert.equal(files["bidang.shx"].length, 100 + 8 * records.length);
+
+    let offset = 100;
+    records.forEach((record, i) => {
+      const pointCount = record.rings.reduce((sum, ring) => sum + ring.length, 0);
+      assert.equal(record.contentLength * 2, 44 + 4 * record.rings.length + 16 * pointCount);
+
+      assert.equal(shx.getInt32(100 + 8 * i, false) * 2, offset);
+      assert.equal(shx.getInt32(100 + 8 * i + 4, false), record.contentLength);
+      offset += 8 + record.contentLength * 2;
+    });
+    assert.equal(offset, files["bidang.shp"].length);
+  });
+
+  it("draws each parcel as surveyed, outer rings clockwise and holes counterclockwise", () => {
+    const [first, second] = readRecords(exportFiles(buildGraph())["bidang.shp"]);
+
+    assert.equal(first.rings.length, 2);
+    for (const ring of [...first.rings, ...second.rings]) {
+      assert.deepEqual(ring[0], ring[ring.length - 1]);
+    }
+    assert.ok(calculateSignedArea(first.rings[0].slice(0, -1)) < 0);
+    assert.ok(calculateSignedArea(first.rings[1].slice(0, -1)) > 0);
+
+    assertClose(calculatePolygonArea(first.rings[0].slice(0, -1)), 100);
+    assertClose(calculatePolygonArea(first.rings[1].slice(0, -1)), 6);
+    assertClose(calculatePolygonArea(second.rings[0].slice(0, -1)), 50);
+  });
+
+  it("writes a .dbf with a header for its fields and a row of areas per parcel", () => {
+    const dbf = exportFiles(buildGraph())["bidang.dbf"];
+    const view = viewOf(dbf);
+    const headerLength = view.getUint16(8, true);
+    const recordLength = view.getUint16(10, true);
+
+    assert.equal(dbf[0], 0x03);
+    assert.equal(view.getUint32(4, true), 2);
+    assert.equal(headerLength, 32 + 32 * 6 + 1);
+    assert.equal(dbf[headerLength - 1], 0x0d);
+    assert.equal(recordLength, 1 + 64 + 18 * 4 + 10);
+    assert.equal(dbf.length, headerLength + 2 * recordLength + 1);
+    assert.equal(dbf[dbf.length - 1], 0x1a);
+
+    const fieldName = (i: number) => strFromU8(dbf.slice(32 + 32 * i, 32 + 32 * i + 11)).replace(/\0+$/, "");
+    assert.deepEqual([0, 1, 2, 3, 4, 5].map(fieldName), ["NAMA", "LUAS_M2", "LUAS_KOTOR", "KELILING", "LUAS_SAT", "SATUAN"]);
+
+    const row = (i: number) => strFromU8(dbf.slice(headerLength + recordLength * i, headerLength + recordLength * (i + 1)));
+    const firstRow = row(0);
+    assert.equal(firstRow[0], " ");
+    assert.equal(firstRow.slice(1, 65).trim(), "Bidang 1");
+    // The net area, matching the polygon drawn for the parcel
+    assert.equal(firstRow.slice(65, 83).trim(), "94.000");
+    assert.equal(firstRow.slice(83, 101).trim(), "100.000");
+    assert.equal(row(1).slice(65, 83).trim(), "50.000");
+  });
+});
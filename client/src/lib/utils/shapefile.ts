@@ -0,0 +1,229 @@
+import { zipSync, strToU8 } from "fflate";
+import { type Point, type Calibration, type PlotGraph, type Units } from "@shared/schema";
+import { type ParcelSurvey, calculateSignedArea, getBoundaryLines } from "@shared/geometry";
+import { resolveParcelLines } from "@shared/measurements";
+import { getUtmWkt } from "@shared/projection";
+import { type GeoTransform } from "@/lib/utils/georeference";
+import { graphToPlaneParcels, surveyedPlaneParcels } from "@/lib/utils/plane";
+import { toAreaUnit } from "@/lib/utils/units";
+
+const SHAPE_TYPE_POLYGON = 5;
+const HEADER_LENGTH = 100;
+
+// Attribute columns of the .dbf table; names are at most 10 characters
+const FIELDS = [
+  { name: "NAMA", type: "C", length: 64, decimals: 0 },
+  { name: "LUAS_M2", type: "N", length: 18, decimals: 3 },
+  { name: "LUAS_KOTOR", type: "N", length: 18, decimals: 3 },
+  { name: "KELILING", type: "N", length: 18, decimals: 3 },
+  { name: "LUAS_SAT", type: "N", length: 18, decimals: 4 },
+  { name: "SATUAN", type: "C", length: 10, decimals: 0 }
+] as const;
+
+type FieldValues = { [Name in (typeof FIELDS)[number]["name"]]: string | number };
+
+/**
+ * A closed ring as a shapefile wants it: outer rings clockwise, holes
+ * counterclockwise, with the first point repeated at the end
+ */
+function toShapeRing(points: Point[], clockwise: boolean): Point[] {
+  const isClockwise = calculateSignedArea(points) < 0;
+  const ordered = isClockwise === clockwise ? points : [...points].reverse();
+  return [...ordered, ordered[0]];
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function boundsOf(points: Point[]): Bounds {
+  return {
+    minX: Math.min(...points.map(point => point.x)),
+    minY: Math.min(...points.map(point => point.y)),
+    maxX: Math.max(...points.map(point => point.x)),
+    maxY: Math.max(...points.map(point => point.y))
+  };
+}
+
+// The 100 byte header shared by the .shp and .shx files
+function writeFileHeader(view: DataView, fileLength: number, bounds: Bounds): void {
+  view.setInt32(0, 9994, false);
+  // Lengths in a shapefile are counted in 16-bit words
+  view.setInt32(24, fileLength / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, SHAPE_TYPE_POLYGON, true);
+  view.setFloat64(36, bounds.minX, true);
+  view.setFloat64(44, bounds.minY, true);
+  view.setFloat64(52, bounds.maxX, true);
+  view.setFloat64(60, bounds.maxY, true);
+}
+
+/**
+ * The geometry (.shp) and index (.shx) of one polygon per parcel, each
+ * made of its rings
+ */
+function writeGeometry(polygons: Point[][][]): { shp: Uint8Array; shx: Uint8Array } {
+  const contentLengths = polygons.map(rings => {
+    const pointCount = rings.reduce((sum, ring) => sum + ring.length, 0);
+    return 44 + 4 * rings.length + 16 * pointCount;
+  });
+
+  const shpLength = HEADER_LENGTH + contentLengths.reduce((sum, length) => sum + 8 + length, 0);
+  const shxLength = HEADER_LENGTH + 8 * polygons.length;
+  const shp = new DataView(new ArrayBuffer(shpLength));
+  const shx = new DataView(new ArrayBuffer(shxLength));
+
+  const bounds = boundsOf(polygons.flat(2));
+  writeFileHeader(shp, shpLength, bounds);
+  writeFileHeader(shx, shxLength, bounds);
+
+  let offset = HEADER_LENGTH;
+  polygons.forEach((rings, i) => {
+    shx.setInt32(HEADER_LENGTH + 8 * i, offset / 2, false);
+    shx.setInt32(HEADER_LENGTH + 8 * i + 4, contentLengths[i] / 2, false);
+
+    // Record header, numbered from one
+    shp.setInt32(offset, i + 1, false);
+    shp.setInt32(offset + 4, contentLengths[i] / 2, false);
+    offset += 8;
+
+    const points = rings.flat();
+    const ringBounds = boundsOf(points);
+    shp.setInt32(offset, SHAPE_TYPE_POLYGON, true);
+    shp.setFloat64(offset + 4, ringBounds.minX, true);
+    shp.setFloat64(offset + 12, ringBounds.minY, true);
+    shp.setFloat64(offset + 20, ringBounds.maxX, true);
+    shp.setFloat64(offset + 28, ringBounds.maxY, true);
+    shp.setInt32(offset + 36, rings.length, true);
+    shp.setInt32(offset + 40, points.length, true);
+    offset += 44;
+
+    // Index of each ring's first point
+    let start = 0;
+    for (const ring of rings) {
+      shp.setInt32(offset, start, true);
+      start += ring.length;
+      offset += 4;
+    }
+
+    for (const point of points) {
+      shp.setFloat64(offset, point.x, true);
+      shp.setFloat64(offset + 8, point.y, true);
+      offset += 16;
+    }
+  });
+
+  return { shp: new Uint8Array(shp.buffer), shx: new Uint8Array(shx.buffer) };
+}
+
+/**
+ * The attribute table (.dbf) with one row per parcel. Text is written as
+ * UTF-8, as the accompanying .cpg file says.
+ */
+function writeAttributes(rows: FieldValues[]): Uint8Array {
+  const headerLength = 32 + 32 * FIELDS.length + 1;
+  const recordLength = 1 + FIELDS.reduce((sum, field) => sum + field.length, 0);
+  const bytes = new Uint8Array(headerLength + recordLength * rows.length + 1);
+  const view = new DataView(bytes.buffer);
+
+  const today = new Date();
+  bytes[0] = 0x03;
+  bytes[1] = today.getFullYear() - 1900;
+  bytes[2] = today.getMonth() + 1;
+  bytes[3] = today.getDate();
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  FIELDS.forEach((field, i) => {
+    const offset = 32 + 32 * i;
+    bytes.set(strToU8(field.name), offset);
+    bytes[offset + 11] = field.type.charCodeAt(0);
+    bytes[offset + 16] = field.length;
+    bytes[offset + 17] = field.decimals;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  // Blank, not-deleted records to fill in
+  bytes.fill(0x20, headerLength, headerLength + recordLength * rows.length);
+
+  rows.forEach((row, i) => {
+    let offset = headerLength + recordLength * i + 1;
+    for (const field of FIELDS) {
+      const value = row[field.name];
+      if (field.type === "N") {
+        // Numbers are right aligned
+        const text = Number(value).toFixed(field.decimals).slice(0, field.length);
+        bytes.set(strToU8(text), offset + field.length - text.length);
+      } else {
+        // Text is left aligned, cut to the field without splitting a character
+        let encoded = strToU8(String(value));
+        let characters = Array.from(String(value));
+        while (encoded.length > field.length) {
+          characters = characters.slice(0, -1);
+          encoded = strToU8(characters.join(""));
+        }
+        bytes.set(encoded, offset);
+      }
+      offset += field.length;
+    }
+  });
+
+  bytes[bytes.length - 1] = 0x1a;
+  return bytes;
+}
+
+/**
+ * A zipped ESRI Shapefile with one polygon per closed parcel and its
+ * measured areas and perimeter as attributes. A georeferenced plot is on
+ * its UTM grid, with a .prj naming the zone; otherwise it is laid out as
+ * surveyed on a local grid in meters, and has no .prj.
+ */
+export function plotToShapefile(
+  graph: PlotGraph,
+  parcelSurveys: Map<number, ParcelSurvey>,
+  units: Units,
+  calibration: Calibration | null,
+  geoTransform: GeoTransform | null,
+  name: string
+): Uint8Array {
+  const planeParcels = geoTransform
+    ? graphToPlaneParcels(graph, geoTransform.toUtm)
+    : surveyedPlaneParcels(graph, parcelSurveys, calibration);
+  const closedParcels = graph.parcels.filter(parcel =>
+    getBoundaryLines(resolveParcelLines(graph, parcel)).length >= 3
+  );
+
+  const polygons = planeParcels.map(parcel => [
+    toShapeRing(parcel.outer, true),
+    ...parcel.holes.map(hole => toShapeRing(hole.points, false))
+  ]);
+
+  const rows = closedParcels.map((parcel): FieldValues => {
+    const survey = parcelSurveys.get(parcel.id);
+    return {
+      NAMA: parcel.name,
+      LUAS_M2: survey?.netArea ?? 0,
+      LUAS_KOTOR: survey?.grossArea ?? 0,
+      KELILING: survey?.boundary.perimeter ?? 0,
+      LUAS_SAT: toAreaUnit(survey?.netArea ?? 0, units.area),
+      SATUAN: units.area
+    };
+  });
+
+  const { shp, shx } = writeGeometry(polygons);
+  const files: Record<string, Uint8Array> = {
+    [`${name}.shp`]: shp,
+    [`${name}.shx`]: shx,
+    [`${name}.dbf`]: writeAttributes(rows),
+    [`${name}.cpg`]: strToU8("UTF-8")
+  };
+  if (geoTransform) {
+    files[`${name}.prj`] = strToU8(getUtmWkt(geoTransform.zone));
+  }
+
+  return zipSync(files);
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Point, PlotGraph } from "@shared/schema";
+import { createParcel } from "@shared/measurements";
+import { findTopologyIssues } from "./topology";
+
+// A parcel of boundary edges joining the given corners, each edge a pair of
+// corner indexes
+function buildGraph(corners: Point[], edges: [number, number][]): PlotGraph {
+  return {
+    vertices: corners.map((corner, i) => ({ id: i + 1, ...corner })),
+    edges: edges.map(([start, end], i) => ({
+      id: i + 1,
+      startVertexId: start + 1,
+      endVertexId: end + 1,
+      length: 10,
+      kind: "boundary",
+      manualLength: false
+    })),
+    parcels: [{ ...createParcel([]), edgeIds: edges.map((_, i) => i + 1) }]
+  };
+}
+
+const closedRing = (count: number) => Array.from({ length: count }, (_, i): [number, number] => [i, (i + 1) % count]);
+
+describe("findTopologyIssues", () => {
+  it("finds nothing wrong with a closed square", () => {
+    const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+    assert.deepEqual(findTopologyIssues(buildGraph(square, closedRing(4))), []);
+  });
+
+  it("marks where the sides of a bow tie cross", () => {
+    const bowTie = [{ x: 0, y: 0 }, { x: 100, y: 100 }, { x: 100, y: 0 }, { x: 0, y: 100 }];
+    const [issue, ...others] = findTopologyIssues(buildGraph(bowTie, closedRing(4)));
+
+    assert.deepEqual(others, []);
+    assert.equal(issue.kind, "self-intersection");
+    assert.deepEqual(issue.edgeIds, [1, 3]);
+    assert.deepEqual(issue.points, [{ x: 50, y: 50 }]);
+    assert.equal(issue.parcelId, 1);
+    assert.equal(issue.holeId, null);
+  });
+
+  it("reports a boundary that does not come back to its start", () => {
+    const corners = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const [issue] = findTopologyIssues(buildGraph(corners, [[0, 1], [1, 2], [2, 3]]));
+
+    assert.equal(issue.kind, "unclosed");
+    assert.deepEqual(issue.points, [{ x: 0, y: 0 }, { x: 0, y: 100 }]);
+  });
+
+  it("reports lines that do not meet along the boundary", () => {
+    const corners = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const issues = findTopologyIssues(buildGraph(corners, [[0, 1], [2, 3], [3, 4], [4, 0]]));
+
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.edgeIds]), [["gap", [1, 2]]]);
+  });
+
+  it("reports a boundary that passes through the same corner twice", () => {
+    // Two triangles pinched together at the middle corner
+    const corners = [{ x: 50, y: 50 }, { x: 0, y: 0 }, { x: 0, y: 100 }, { x: 100, y: 0 }, { x: 100, y: 100 }];
+    const issues = findTopologyIssues(buildGraph(corners, [[0, 1], [1, 2], [2, 0], [0, 3], [3, 4], [4, 0]]));
+
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.points]), [["duplicate-vertex", [{ x: 50, y: 50 }]]]);
+  });
+
+  it("reports separate corners drawn on top of each other", () => {
+    const corners = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }, { x: 2, y: 1 }];
+    const issues = findTopologyIssues(buildGraph(corners, [[0, 1], [1, 2], [2, 3], [3, 4]]));
+
+    const duplicate = issues.find(issue => issue.kind === "duplicate-vertex");
+    assert.equal(duplicate?.parcelId, null);
+    assert.deepEqual(duplicate?.edgeIds, [1, 4]);
+    // The ring itself stays open, since the corners are not joined
+    assert.ok(issues.some(issue => issue.kind === "unclosed"));
+  });
+
+  it("checks holes as rings of their own", () => {
+    const corners = [
+      { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 },
+      { x: 20, y: 20 }, { x: 60, y: 60 }, { x: 60, y: 20 }, { x: 20, y: 60 }
+    ];
+    const graph = buildGraph(corners, [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4]]);
+    const parcel = graph.parcels[0];
+    const withHole: PlotGraph = {
+      ...graph,
+      parcels: [{ ...parcel, edgeIds: [1, 2, 3, 4], holes: [{ id: 1, name: "Kolam", edgeIds: [5, 6, 7, 8] }] }]
+    };
+
+    const [issue, ...others] = findTopologyIssues(withHole);
+    assert.deepEqual(others, []);
+    assert.equal(issue.kind, "self-intersection");
+    assert.equal(issue.holeId, 1);
+  });
+});
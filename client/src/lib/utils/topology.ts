@@ -0,0 +1,116 @@
+import { type Point, type Line, type PlotGraph } from "@shared/schema";
+import { resolveRingLines } from "@shared/measurements";
+import { calculateDistance, getBoundaryLines, segmentsIntersect } from "@shared/geometry";
+
+// Separate corners closer than this (in pixels) look joined but are not
+const DUPLICATE_VERTEX_DISTANCE = 5;
+
+export type TopologyIssueKind = "self-intersection" | "duplicate-vertex" | "gap" | "unclosed";
+
+/**
+ * A problem with how a ring is drawn that makes its area meaningless
+ */
+export interface TopologyIssue {
+  kind: TopologyIssueKind;
+  // The ring the problem is in; duplicate corners can belong to none
+  parcelId: number | null;
+  holeId: number | null;
+  edgeIds: number[];
+  // Where to mark the problem on the drawing
+  points: Point[];
+}
+
+const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+/**
+ * Where two crossing segments meet; segments lying on top of each other
+ * are marked where the second one starts
+ */
+function getIntersectionPoint(a: Line, b: Line): Point {
+  const rx = a.endPoint.x - a.startPoint.x;
+  const ry = a.endPoint.y - a.startPoint.y;
+  const sx = b.endPoint.x - b.startPoint.x;
+  const sy = b.endPoint.y - b.startPoint.y;
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) return b.startPoint;
+
+  const t = ((b.startPoint.x - a.startPoint.x) * sy - (b.startPoint.y - a.startPoint.y) * sx) / denominator;
+  return { x: a.startPoint.x + t * rx, y: a.startPoint.y + t * ry };
+}
+
+/**
+ * Check one ring's boundary, walked head to tail
+ */
+function checkRing(lines: Line[], parcelId: number, holeId: number | null): TopologyIssue[] {
+  const boundary = getBoundaryLines(lines);
+  const count = boundary.length;
+  if (count === 0) return [];
+
+  const issues: TopologyIssue[] = [];
+  const ring = { parcelId, holeId };
+
+  // Consecutive lines that do not meet at a corner
+  for (let i = 0; i < count - 1; i++) {
+    const line = boundary[i];
+    const next = boundary[i + 1];
+    if (!samePoint(line.endPoint, next.startPoint)) {
+      issues.push({ ...ring, kind: "gap", edgeIds: [line.id, next.id], points: [line.endPoint, next.startPoint] });
+    }
+  }
+
+  const first = boundary[0];
+  const last = boundary[count - 1];
+  const isClosed = count >= 3 && samePoint(last.endPoint, first.startPoint);
+  if (!isClosed) {
+    issues.push({ ...ring, kind: "unclosed", edgeIds: [first.id, last.id], points: [first.startPoint, last.endPoint] });
+  }
+
+  // A boundary that passes through the same corner twice pinches into two loops
+  const corners = boundary.map(line => line.startPoint);
+  corners.forEach((corner, i) => {
+    const repeat = corners.findIndex((other, j) => j > i && samePoint(corner, other));
+    if (repeat !== -1) {
+      issues.push({ ...ring, kind: "duplicate-vertex", edgeIds: [boundary[i].id, boundary[repeat].id], points: [corner] });
+    }
+  });
+
+  // Lines next to each other share a corner, so only the others may not touch
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 2; j < count; j++) {
+      if (isClosed && i === 0 && j === count - 1) continue;
+
+      const a = boundary[i];
+      const b = boundary[j];
+      // Lines meeting only at a repeated corner were reported above
+      const shareCorner = [a.startPoint, a.endPoint].some(point => samePoint(point, b.startPoint) || samePoint(point, b.endPoint));
+      if (!shareCorner && segmentsIntersect(a.startPoint, a.endPoint, b.startPoint, b.endPoint)) {
+        issues.push({ ...ring, kind: "self-intersection", edgeIds: [a.id, b.id], points: [getIntersectionPoint(a, b)] });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Find everything wrong with how the parcels and holes are drawn: crossing
+ * lines, corners placed twice, gaps along a boundary and boundaries left open
+ */
+export function findTopologyIssues(graph: PlotGraph): TopologyIssue[] {
+  const ringIssues = graph.parcels.flatMap(parcel => [
+    ...checkRing(resolveRingLines(graph, parcel.edgeIds), parcel.id, null),
+    ...parcel.holes.flatMap(hole => checkRing(resolveRingLines(graph, hole.edgeIds), parcel.id, hole.id))
+  ]);
+
+  // Separate corners drawn on top of each other, so their lines do not join
+  const duplicateIssues = graph.vertices.flatMap((vertex, i) => graph.vertices.slice(i + 1).flatMap(other => {
+    if (calculateDistance(vertex, other) >= DUPLICATE_VERTEX_DISTANCE) return [];
+
+    const edgeIds = graph.edges
+      .filter(edge => [vertex.id, other.id].some(id => edge.startVertexId === id || edge.endVertexId === id))
+      .map(edge => edge.id);
+    return [{ kind: "duplicate-vertex" as const, parcelId: null, holeId: null, edgeIds, points: [vertex, other] }];
+  }));
+
+  return [...ringIssues, ...duplicateIssues];
+}
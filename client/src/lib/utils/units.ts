@@ -0,0 +1,64 @@
+import { type LengthUnit, type AreaUnit, type Units } from "@shared/schema";
+
+interface UnitDefinition {
+  label: string;
+  symbol: string;
+  // Size of one unit in meters, or square meters for areas
+  factor: number;
+  decimals: number;
+}
+
+export const LENGTH_UNITS: Record<LengthUnit, UnitDefinition> = {
+  m: { label: "Meter (m)", symbol: "m", factor: 1, decimals: 2 },
+  ft: { label: "Kaki (ft)", symbol: "ft", factor: 0.3048, decimals: 2 },
+  yd: { label: "Yard (yd)", symbol: "yd", factor: 0.9144, decimals: 2 },
+  ch: { label: "Rantai (ch)", symbol: "ch", factor: 20.1168, decimals: 3 }
+};
+
+export const AREA_UNITS: Record<AreaUnit, UnitDefinition> = {
+  m2: { label: "Meter persegi (m²)", symbol: "m²", factor: 1, decimals: 2 },
+  ha: { label: "Hektare (ha)", symbol: "ha", factor: 10000, decimals: 4 },
+  acre: { label: "Acre", symbol: "acre", factor: 4046.8564224, decimals: 4 },
+  ft2: { label: "Kaki persegi (ft²)", symbol: "ft²", factor: 0.09290304, decimals: 2 },
+  are: { label: "Are", symbol: "are", factor: 100, decimals: 2 },
+  tumbak: { label: "Tumbak (14 m²)", symbol: "tumbak", factor: 14, decimals: 2 },
+  bata: { label: "Bata (14 m²)", symbol: "bata", factor: 14, decimals: 2 }
+};
+
+export const DEFAULT_UNITS: Units = { length: "m", area: "m2" };
+
+/**
+ * Convert a length in meters to the given unit, rounded to four decimal
+ * places of that unit so typed values survive the round trip
+ */
+export function toLengthUnit(meters: number, unit: LengthUnit): number {
+  return Math.round(meters / LENGTH_UNITS[unit].factor * 10000) / 10000;
+}
+
+/**
+ * Convert a length typed in the given unit back to meters
+ */
+export function fromLengthUnit(value: number, unit: LengthUnit): number {
+  return value * LENGTH_UNITS[unit].factor;
+}
+
+/**
+ * Convert an area in square meters to the given unit
+ */
+export function toAreaUnit(squareMeters: number, unit: AreaUnit): number {
+  return squareMeters / AREA_UNITS[unit].factor;
+}
+
+/**
+ * Format a length in meters for display in the given unit
+ */
+export function formatLength(meters: number, unit: LengthUnit, decimals = LENGTH_UNITS[unit].decimals): string {
+  return `${(meters / LENGTH_UNITS[unit].factor).toFixed(decimals)} ${LENGTH_UNITS[unit].symbol}`;
+}
+
+/**
+ * Format an area in square meters for display in the given unit
+ */
+export function formatArea(squareMeters: number, unit: AreaUnit): string {
+  return `${toAreaUnit(squareMeters, unit).toFixed(AREA_UNITS[unit].decimals)} ${AREA_UNITS[unit].symbol}`;
+}
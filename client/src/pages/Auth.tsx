@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card, CardContent, CardDescription, CardHeader, CardTitle
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth, type Credentials } from "@/hooks/use-auth";
+
+interface CredentialsFormProps {
+  idPrefix: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (credentials: Credentials) => void;
+}
+
+function CredentialsForm({ idPrefix, submitLabel, isPending, onSubmit }: CredentialsFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ username: username.trim(), password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-username`}>Username</Label>
+        <Input
+          id={`${idPrefix}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          required
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-password`}>Password</Label>
+        <Input
+          id={`${idPrefix}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={idPrefix === "register" ? "new-password" : "current-password"}
+          required
+          className="mt-1"
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function Auth() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Land Area Calculator</CardTitle>
+          <CardDescription>Log in to save your plots and open them again later.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Log In</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                idPrefix="login"
+                submitLabel="Log In"
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                idPrefix="register"
+                submitLabel="Create Account"
+                isPending={registerMutation.isPending}
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
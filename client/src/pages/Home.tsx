@@ -1,45 +1,245 @@
 import { useState, useEffect, useMemo } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/Header";
-import Canvas from "@/components/Canvas";
+import Canvas, { type DrawingTool } from "@/components/Canvas";
 import MeasurementPanel from "@/components/MeasurementPanel";
-import { type Line } from "@shared/schema";
+import RevisionList from "@/components/RevisionList";
 import { 
-  calculatePolygonArea, 
-  extractVerticesFromLines,
-  scaleAreaToRealWorld
-} from "@/lib/utils/area";
+  type PlotGraph, type Calibration, type Units, type AccessibleLandPlot, type PlotRevision, type Georeference 
+} from "@shared/schema";
+import { createEmptyGraph, parseMeasurements } from "@shared/measurements";
+import { applyCalibration, surveyParcel } from "@shared/geometry";
+import { DEFAULT_UNITS } from "@/lib/utils/units";
+import { findTopologyIssues } from "@/lib/utils/topology";
+import { readParcelFile } from "@/lib/utils/import";
+import { planeParcelsToGraph } from "@/lib/utils/plane";
+import { fitGeoreference, georeferenceFromPlane } from "@/lib/utils/georeference";
 import { useToast } from "@/hooks/use-toast";
+import { useHistory } from "@/hooks/use-history";
+import { queryClient } from "@/lib/queryClient";
+
+// Everything an undo step restores
+interface PlotState {
+  graph: PlotGraph;
+  calibration: Calibration | null;
+  georeference: Georeference | null;
+}
+
+const INITIAL_HISTORY_LABEL = "Mulai";
 
 export default function Home() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  
+  // A plot opened from the library lives at /plots/:id
+  const [, params] = useRoute("/plots/:id");
+  const plotId = params ? parseInt(params.id) : null;
+  const { data: savedPlot, isError: isPlotMissing } = useQuery<AccessibleLandPlot>({
+    queryKey: [`/api/land-plots/${plotId}`],
+    enabled: plotId !== null && !isNaN(plotId)
+  });
+  // The plot currently loaded into the editor, so saving it does not reload it
+  const [loadedPlotId, setLoadedPlotId] = useState<number | null>(null);
+  // Saved version of the loaded plot drawn underneath the current one
+  const [compareRevisionId, setCompareRevisionId] = useState<number | null>(null);
+  const { data: compareRevision } = useQuery<PlotRevision>({
+    queryKey: [`/api/land-plots/${loadedPlotId}/revisions/${compareRevisionId}`],
+    enabled: loadedPlotId !== null && compareRevisionId !== null
+  });
   
   // State
-  const [lines, setLines] = useState<Line[]>([]);
+  const history = useHistory<PlotState>(
+    { graph: createEmptyGraph(), calibration: null, georeference: null },
+    INITIAL_HISTORY_LABEL
+  );
+  const { graph, calibration, georeference } = history.state;
+  const [selectedParcelId, setSelectedParcelId] = useState<number>(1);
+  // Hole of the active parcel being drawn into, or null for its outer boundary
+  const [selectedHoleId, setSelectedHoleId] = useState<number | null>(null);
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
-  const [activeTool, setActiveTool] = useState<"line" | "polygon">("line");
+  const [activeTool, setActiveTool] = useState<DrawingTool>("line");
   const [defaultLength, setDefaultLength] = useState<number>(10);
-  const [scale, setScale] = useState<number>(100);
+  const [units, setUnits] = useState<Units>(DEFAULT_UNITS);
+  
+  // Undo can remove the selected parcel or hole; fall back to one that exists
+  // so new edges never end up outside every parcel
+  const activeParcel = graph.parcels.find(parcel => parcel.id === selectedParcelId) ?? graph.parcels[0];
+  const activeParcelId = activeParcel.id;
+  const activeHoleId = activeParcel.holes.some(hole => hole.id === selectedHoleId) ? selectedHoleId : null;
+  
+  // Record every edit so it can be undone
+  const handleGraphChange = (updatedGraph: PlotGraph, label: string, coalesceKey?: string) => {
+    history.commit({ ...history.state, graph: updatedGraph }, label, coalesceKey);
+  };
+  
+  // Redrawing the reference line and typing its length count as one calibration step
+  const handleCalibrationChange = (updatedCalibration: Calibration | null) => {
+    if (updatedCalibration) {
+      history.commit({ ...history.state, calibration: updatedCalibration }, "Kalibrasi skala", "calibration");
+    } else {
+      history.commit({ ...history.state, calibration: null }, "Hapus kalibrasi");
+    }
+  };
+  
+  const handleGeoreferenceChange = (updatedGeoreference: Georeference | null, label: string) => {
+    history.commit({ ...history.state, georeference: updatedGeoreference }, label);
+  };
   
-  // Calculate the total area based on the measurement lines
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes; typing keeps the browser's own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+      
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [history.undo, history.redo]);
+  
+  // Once calibrated, lengths follow the drawing unless typed in by hand
+  const measuredGraph = useMemo(() => applyCalibration(graph, calibration), [graph, calibration]);
+  
+  // Rebuild each parcel's real polygons from the measured lengths
+  const parcelSurveys = useMemo(() => {
+    return new Map(measuredGraph.parcels.map(parcel => [
+      parcel.id,
+      surveyParcel(measuredGraph, parcel)
+    ]));
+  }, [measuredGraph]);
+  
+  // Where the drawing lies on the earth, once any vertex has been pinned
+  const geoTransform = useMemo(
+    () => fitGeoreference(measuredGraph, georeference, calibration),
+    [measuredGraph, georeference, calibration]
+  );
+  
+  // Crossing, gapped or open boundaries make the areas meaningless
+  const topologyIssues = useMemo(() => findTopologyIssues(measuredGraph), [measuredGraph]);
+  
+  // Excluded areas do not count towards the total
   const totalArea = useMemo(() => {
-    if (lines.length < 3) return 0;
+    return Array.from(parcelSurveys.values()).reduce((sum, survey) => sum + survey.netArea, 0);
+  }, [parcelSurveys]);
+  
+  // The compared version as it measured when saved
+  const compareGraph = useMemo(() => {
+    if (!compareRevision) return null;
     
-    const vertices = extractVerticesFromLines(lines);
-    const pixelArea = calculatePolygonArea(vertices);
+    try {
+      const measurements = parseMeasurements(compareRevision.measurements);
+      return applyCalibration(measurements, measurements.calibration ?? null);
+    } catch {
+      return null;
+    }
+  }, [compareRevision]);
+  
+  // Put a saved plot into the editor, starting a fresh history
+  const loadPlot = (plot: AccessibleLandPlot, label: string) => {
+    try {
+      const measurements = parseMeasurements(plot.measurements);
+      const parcels = measurements.parcels.length > 0 ? measurements.parcels : createEmptyGraph().parcels;
+      
+      history.reset({
+        graph: { vertices: measurements.vertices, edges: measurements.edges, parcels },
+        calibration: measurements.calibration ?? null,
+        georeference: measurements.georeference ?? null
+      }, label);
+      setSelectedParcelId(parcels[0].id);
+      setSelectedHoleId(null);
+      setBackgroundImage(null);
+      setUnits(measurements.units ?? DEFAULT_UNITS);
+      setLoadedPlotId(plot.id);
+      setCompareRevisionId(null);
+    } catch {
+      toast({
+        title: "Open Failed",
+        description: "This plot's measurements could not be read.",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Load an opened plot into the editor
+  useEffect(() => {
+    if (!savedPlot || savedPlot.id === loadedPlotId) return;
+    loadPlot(savedPlot, `Buka ${savedPlot.name}`);
+  }, [savedPlot]);
+  
+  useEffect(() => {
+    if (isPlotMissing) {
+      toast({
+        title: "Plot Not Found",
+        description: "The requested plot could not be loaded.",
+        variant: "destructive"
+      });
+    }
+  }, [isPlotMissing]);
+  
+  // Keep editing the saved plot; later saves update it rather than adding another
+  const handleSaved = (plot: AccessibleLandPlot) => {
+    setLoadedPlotId(plot.id);
+    queryClient.setQueryData([`/api/land-plots/${plot.id}`], plot);
+    queryClient.invalidateQueries({ queryKey: ["/api/land-plots"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/land-plots/${plot.id}/revisions`] });
+    
+    if (plot.id !== plotId) {
+      setLocation(`/plots/${plot.id}`);
+    }
+  };
+  
+  // Restoring replaces the editor contents with the restored version
+  const handleRestored = (plot: AccessibleLandPlot) => {
+    loadPlot(plot, "Pulihkan versi");
+    queryClient.setQueryData([`/api/land-plots/${plot.id}`], plot);
+    queryClient.invalidateQueries({ queryKey: ["/api/land-plots"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/land-plots/${plot.id}/revisions`] });
+  };
+  
+  const isReadOnly = savedPlot?.id === loadedPlotId && savedPlot?.role === "viewer";
+  
+  // Pick the ring new edges are drawn into
+  const handleActiveRingChange = (parcelId: number, holeId: number | null = null) => {
+    setSelectedParcelId(parcelId);
+    setSelectedHoleId(holeId);
+  };
+  
+  // Start over with a single empty parcel
+  const resetPlot = () => {
+    history.reset({ graph: createEmptyGraph(), calibration: null, georeference: null }, INITIAL_HISTORY_LABEL);
+    setSelectedParcelId(1);
+    setSelectedHoleId(null);
+    setBackgroundImage(null);
+    setUnits(DEFAULT_UNITS);
+    setLoadedPlotId(null);
+    setCompareRevisionId(null);
     
-    return scaleAreaToRealWorld(pixelArea, lines, scale);
-  }, [lines, scale]);
+    if (plotId !== null) {
+      setLocation("/");
+    }
+  };
   
   // Handle creating a new plot
   const handleNewPlot = () => {
-    if (lines.length > 0 || backgroundImage) {
+    if (graph.edges.length > 0 || backgroundImage) {
       if (window.confirm("Are you sure you want to create a new plot? All current measurements will be lost.")) {
-        setLines([]);
-        setBackgroundImage(null);
+        resetPlot();
       }
     } else {
-      setLines([]);
-      setBackgroundImage(null);
+      resetPlot();
     }
   };
   
@@ -62,35 +262,120 @@ export default function Home() {
     reader.readAsDataURL(file);
   };
   
+  // Replace the editor contents with the parcels of a GeoJSON, KML or KMZ file, as a new plot
+  const handlePlotFileImport = async (file: File) => {
+    let parcelFile: Awaited<ReturnType<typeof readParcelFile>>;
+    try {
+      parcelFile = await readParcelFile(file);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The file could not be read.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (graph.edges.length > 0 &&
+        !window.confirm("Importing replaces the current plot. All current measurements will be lost.")) {
+      return;
+    }
+    
+    const { format, imported } = parcelFile;
+    
+    // Coordinates read as longitude/latitude pin the plot to where they are
+    const importedGraph = planeParcelsToGraph(imported.parcels, null);
+    history.reset({
+      graph: importedGraph,
+      calibration: null,
+      georeference: imported.utmZone ? georeferenceFromPlane(importedGraph, imported.parcels, imported.utmZone) : null
+    }, `Impor ${format}`);
+    setSelectedParcelId(importedGraph.parcels[0].id);
+    setSelectedHoleId(null);
+    setBackgroundImage(null);
+    setUnits(imported.units ?? units);
+    setLoadedPlotId(null);
+    setCompareRevisionId(null);
+    
+    if (plotId !== null) {
+      setLocation("/");
+    }
+    
+    toast({
+      title: "Import Complete",
+      description: `${imported.parcels.length} parcel${imported.parcels.length === 1 ? "" : "s"} imported from ${file.name}`
+    });
+  };
+  
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
         onNewPlot={handleNewPlot} 
         onImageUpload={handleImageUpload} 
+        onPlotFileImport={handlePlotFileImport}
       />
       
       <main className="container mx-auto px-4 py-6">
         <div className="lg:flex lg:space-x-6">
           <Canvas 
-            lines={lines}
-            onLinesChange={setLines}
+            graph={measuredGraph}
+            onGraphChange={handleGraphChange}
+            activeParcelId={activeParcelId}
+            activeHoleId={activeHoleId}
             backgroundImage={backgroundImage}
             activeTool={activeTool}
             defaultLength={defaultLength}
-            scale={scale}
+            calibration={calibration}
+            onCalibrationChange={handleCalibrationChange}
+            units={units}
+            compareTo={compareGraph}
+            topologyIssues={topologyIssues}
+            geoTransform={geoTransform}
+            onUndo={history.undo}
+            onRedo={history.redo}
+            canUndo={history.canUndo}
+            canRedo={history.canRedo}
           />
           
           <MeasurementPanel 
-            lines={lines}
-            onLinesChange={setLines}
+            graph={measuredGraph}
+            onGraphChange={handleGraphChange}
+            activeParcelId={activeParcelId}
+            activeHoleId={activeHoleId}
+            onActiveRingChange={handleActiveRingChange}
+            parcelSurveys={parcelSurveys}
             defaultLength={defaultLength}
             onDefaultLengthChange={setDefaultLength}
-            scale={scale}
-            onScaleChange={setScale}
+            calibration={calibration}
+            onCalibrationChange={handleCalibrationChange}
+            units={units}
+            onUnitsChange={setUnits}
             activeTool={activeTool}
             onToolChange={setActiveTool}
             totalArea={totalArea}
-          />
+            topologyIssues={topologyIssues}
+            georeference={georeference}
+            onGeoreferenceChange={handleGeoreferenceChange}
+            geoTransform={geoTransform}
+            plotId={loadedPlotId}
+            readOnly={isReadOnly}
+            onSaved={handleSaved}
+            historyEntries={history.entries}
+            historyIndex={history.index}
+            onHistoryJump={history.jumpTo}
+          >
+            {loadedPlotId !== null && (
+              <RevisionList 
+                plotId={loadedPlotId}
+                areaUnit={units.area}
+                currentArea={totalArea}
+                canRestore={!isReadOnly}
+                comparingId={compareRevisionId}
+                onCompare={setCompareRevisionId}
+                onRestored={handleRestored}
+              />
+            )}
+          </MeasurementPanel>
         </div>
       </main>
     </div>
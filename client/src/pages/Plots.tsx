@@ -0,0 +1,238 @@
+import { useState, useMemo } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowLeft, FolderOpen, Pencil, Search, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import PlotThumbnail from "@/components/PlotThumbnail";
+import ShareDialog from "@/components/ShareDialog";
+import { type LandPlot, type AccessibleLandPlot, type Measurements } from "@shared/schema";
+import { parseMeasurements } from "@shared/measurements";
+import { DEFAULT_UNITS, formatArea } from "@/lib/utils/units";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type PlotSort = "newest" | "oldest" | "name" | "area";
+
+const SORT_LABELS: Record<PlotSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name",
+  area: "Largest area"
+};
+
+// Plots saved in a shape that no longer parses are listed without a drawing
+function readMeasurements(plot: LandPlot): Measurements | null {
+  try {
+    return parseMeasurements(plot.measurements);
+  } catch {
+    return null;
+  }
+}
+
+export default function Plots() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<PlotSort>("newest");
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [sharingPlot, setSharingPlot] = useState<LandPlot | null>(null);
+
+  const { data: plots = [], isLoading } = useQuery<AccessibleLandPlot[]>({
+    queryKey: ["/api/land-plots"]
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const res = await apiRequest("PATCH", `/api/land-plots/${id}`, { name });
+      return await res.json() as AccessibleLandPlot;
+    },
+    onSuccess: (plot) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/land-plots"] });
+      queryClient.setQueryData([`/api/land-plots/${plot.id}`], plot);
+    },
+    onError: () => {
+      toast({
+        title: "Rename Failed",
+        description: "The plot could not be renamed. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const visiblePlots = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matching = plots.filter(plot => plot.name.toLowerCase().includes(query));
+
+    return [...matching].sort((a, b) => {
+      switch (sort) {
+        case "newest":
+          return b.createdAt.localeCompare(a.createdAt);
+        case "oldest":
+          return a.createdAt.localeCompare(b.createdAt);
+        case "name":
+          return a.name.localeCompare(b.name);
+        case "area":
+          return b.area - a.area;
+      }
+    });
+  }, [plots, search, sort]);
+
+  const startRename = (plot: LandPlot) => {
+    setRenamingId(plot.id);
+    setDraftName(plot.name);
+  };
+
+  const finishRename = (plot: LandPlot) => {
+    const name = draftName.trim();
+    if (name && name !== plot.name) {
+      renameMutation.mutate({ id: plot.id, name });
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="container mx-auto px-4 py-3 flex justify-between items-center">
+          <h1 className="text-xl font-semibold text-gray-800">My Plots</h1>
+          <Button asChild variant="outline" size="sm" className="px-3 py-1.5">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to Calculator
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search plots by name"
+              className="pl-9"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as PlotSort)}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-12">Loading plots...</p>
+        ) : visiblePlots.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">
+            {plots.length === 0 ? "No saved plots yet. Save a plot from the calculator to see it here." : "No plots match your search."}
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {visiblePlots.map(plot => {
+              const measurements = readMeasurements(plot);
+
+              return (
+                <Card key={plot.id} className="overflow-hidden">
+                  <div className="bg-gray-50 border-b border-gray-200">
+                    {measurements ? (
+                      <PlotThumbnail graph={measurements} className="w-full h-40" />
+                    ) : (
+                      <div className="h-40 flex items-center justify-center text-xs text-gray-400">
+                        Drawing unavailable
+                      </div>
+                    )}
+                  </div>
+                  <CardContent className="pt-4">
+                    {renamingId === plot.id ? (
+                      <Input
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={() => finishRename(plot)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") finishRename(plot);
+                          if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        autoFocus
+                        className="h-8 text-sm"
+                      />
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <h2 className="font-medium text-gray-800 truncate">{plot.name}</h2>
+                        <div className="flex items-center">
+                          {plot.role !== "owner" && (
+                            <Badge variant="secondary" className="mr-1">
+                              {plot.role === "editor" ? "Shared · edit" : "Shared · view"}
+                            </Badge>
+                          )}
+                          {plot.role === "owner" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setSharingPlot(plot)}
+                              title="Share"
+                              className="h-7 w-7 text-gray-400 hover:text-primary"
+                            >
+                              <Share2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {plot.role !== "viewer" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => startRename(plot)}
+                              title="Rename"
+                              className="h-7 w-7 text-gray-400 hover:text-primary"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="mt-2 flex justify-between text-sm text-gray-600">
+                      <span>
+                        {measurements
+                          ? formatArea(measurements.area, measurements.units?.area ?? DEFAULT_UNITS.area)
+                          : formatArea(plot.area, DEFAULT_UNITS.area)}
+                      </span>
+                      <span>{new Date(plot.createdAt).toLocaleDateString()}</span>
+                    </div>
+
+                    <Button asChild size="sm" className="w-full mt-3">
+                      <Link href={`/plots/${plot.id}`}>
+                        <FolderOpen className="h-4 w-4 mr-1" />
+                        Open
+                      </Link>
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {sharingPlot && (
+        <ShareDialog
+          plot={sharingPlot}
+          open
+          onOpenChange={(open) => !open && setSharingPlot(null)}
+        />
+      )}
+    </div>
+  );
+}
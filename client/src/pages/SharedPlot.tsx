@@ -0,0 +1,146 @@
+import { useMemo } from "react";
+import { useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { AlertCircle, Loader2 } from "lucide-react";
+import {
+  Card, CardContent, CardHeader, CardTitle
+} from "@/components/ui/card";
+import PlotThumbnail from "@/components/PlotThumbnail";
+import { type PublicLandPlot } from "@shared/schema";
+import { parseMeasurements, resolveParcelLines } from "@shared/measurements";
+import { applyCalibration, surveyParcel } from "@shared/geometry";
+import { DEFAULT_UNITS, formatArea, formatLength } from "@/lib/utils/units";
+
+/**
+ * Read-only view of a plot opened through a public share link
+ */
+export default function SharedPlot() {
+  const [, params] = useRoute("/share/:token");
+  const { data: plot, isLoading, isError } = useQuery<PublicLandPlot>({
+    queryKey: [`/api/shared/${params?.token}`],
+    enabled: !!params
+  });
+
+  const view = useMemo(() => {
+    if (!plot) return null;
+
+    try {
+      const measurements = parseMeasurements(plot.measurements);
+      const graph = applyCalibration(measurements, measurements.calibration ?? null);
+      const parcels = graph.parcels.map(parcel => ({
+        parcel,
+        lines: resolveParcelLines(graph, parcel),
+        survey: surveyParcel(graph, parcel)
+      }));
+
+      return {
+        graph,
+        parcels,
+        units: measurements.units ?? DEFAULT_UNITS,
+        totalArea: parcels.reduce((sum, { survey }) => sum + survey.netArea, 0)
+      };
+    } catch {
+      return null;
+    }
+  }, [plot]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError || !plot || !view) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Link Unavailable</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              This share link does not exist, has been revoked or has expired.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { graph, parcels, units, totalArea } = view;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="container mx-auto px-4 py-3">
+          <h1 className="text-xl font-semibold text-gray-800">{plot.name}</h1>
+          <p className="text-sm text-gray-500">
+            Shared land measurement · {new Date(plot.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 lg:flex lg:space-x-6">
+        <div className="lg:w-2/3 bg-white rounded-lg shadow-md p-4 mb-6 lg:mb-0">
+          <PlotThumbnail graph={graph} lengthUnit={units.length} className="w-full h-[550px]" />
+        </div>
+
+        <div className="lg:w-1/3 space-y-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Area</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-gray-50 rounded p-4 text-center">
+                <p className="text-sm text-gray-600 mb-1">Total Area</p>
+                <div className="text-3xl font-bold text-primary">
+                  {formatArea(totalArea, units.area)}
+                </div>
+              </div>
+
+              {parcels.length > 1 && (
+                <div className="mt-2 space-y-1">
+                  {parcels.map(({ parcel, survey }) => (
+                    <div key={parcel.id} className="flex justify-between text-sm">
+                      <span className="text-gray-600">{parcel.name}</span>
+                      <span className="font-medium text-gray-800">{formatArea(survey.netArea, units.area)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">Measurements</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {parcels.map(({ parcel, lines }) => (
+                <div key={parcel.id}>
+                  {parcels.length > 1 && (
+                    <h3 className="text-sm font-medium text-gray-800 mb-1">{parcel.name}</h3>
+                  )}
+                  <ul className="space-y-1">
+                    {lines.map(line => (
+                      <li key={line.id} className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          {line.kind === "diagonal" ? "Diagonal" : "Line"}{" "}
+                          {lines.filter(other => other.kind === line.kind).indexOf(line) + 1}
+                        </span>
+                        <span className="font-medium text-gray-800">{formatLength(line.length, units.length)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
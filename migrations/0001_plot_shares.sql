@@ -0,0 +1,10 @@
+CREATE TABLE "plot_shares" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"land_plot_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" text NOT NULL,
+	CONSTRAINT "plot_shares_land_plot_id_user_id_unique" UNIQUE("land_plot_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "plot_shares" ADD CONSTRAINT "plot_shares_land_plot_id_land_plots_id_fk" FOREIGN KEY ("land_plot_id") REFERENCES "public"."land_plots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plot_shares" ADD CONSTRAINT "plot_shares_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
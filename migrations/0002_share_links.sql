@@ -0,0 +1,10 @@
+CREATE TABLE "share_links" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"land_plot_id" integer NOT NULL,
+	"token" text NOT NULL,
+	"created_at" text NOT NULL,
+	"expires_at" text,
+	CONSTRAINT "share_links_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_land_plot_id_land_plots_id_fk" FOREIGN KEY ("land_plot_id") REFERENCES "public"."land_plots"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
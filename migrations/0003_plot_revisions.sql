@@ -0,0 +1,11 @@
+CREATE TABLE "plot_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"land_plot_id" integer NOT NULL,
+	"user_id" integer,
+	"measurements" jsonb NOT NULL,
+	"area" integer NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "plot_revisions" ADD CONSTRAINT "plot_revisions_land_plot_id_land_plots_id_fk" FOREIGN KEY ("land_plot_id") REFERENCES "public"."land_plots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plot_revisions" ADD CONSTRAINT "plot_revisions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
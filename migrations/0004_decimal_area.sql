@@ -0,0 +1,2 @@
+ALTER TABLE "land_plots" ALTER COLUMN "area" SET DATA TYPE numeric(16, 4);--> statement-breakpoint
+ALTER TABLE "plot_revisions" ALTER COLUMN "area" SET DATA TYPE numeric(16, 4);
\ No newline at end of file
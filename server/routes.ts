@@ -1,24 +1,136 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { insertLandPlotSchema, measurementsSchema, type LandPlot } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import { 
+  AREA_DECIMALS, insertLandPlotSchema, updateLandPlotSchema, shareRequestSchema, shareLinkRequestSchema,
+  type LandPlot, type InsertLandPlot, type PlotRole, type AccessibleLandPlot, type PlotShareWithUser, type PublicLandPlot,
+  type PlotRevisionSummary 
+} from "@shared/schema";
+import { parseMeasurements } from "@shared/measurements";
+import { calculateMeasuredArea, hasClosedParcel } from "@shared/geometry";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
+// Square meters an area sent by the client may differ from the one worked
+// out here, to allow for floating point noise between engines
+const AREA_TOLERANCE = 0.01;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
+  setupAuth(app);
+
+  // Every land plot route acts on plots the logged-in user owns or was shared
+  app.use("/api/land-plots", requireAuth);
+
+  // What a user may do with a plot: its owner anything, others what it was
+  // shared with them for
+  const getPlotRole = async (landPlot: LandPlot, userId: number): Promise<PlotRole | undefined> => {
+    if (landPlot.userId === userId) return "owner";
+    
+    const share = await storage.getPlotShare(landPlot.id, userId);
+    return share?.role;
+  };
+
+  // Look up a plot the logged-in user may access in one of the given roles,
+  // sending the error response and returning undefined when they may not
+  const findAccessibleLandPlot = async (
+    req: Request,
+    res: Response,
+    allowedRoles: PlotRole[]
+  ): Promise<AccessibleLandPlot | undefined> => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return undefined;
+    }
+    
+    const landPlot = await storage.getLandPlot(id);
+    if (!landPlot) {
+      res.status(404).json({ message: "Land plot not found" });
+      return undefined;
+    }
+    
+    const role = await getPlotRole(landPlot, req.user!.id);
+    if (!role || !allowedRoles.includes(role)) {
+      res.status(403).json({ message: "You do not have access to this land plot" });
+      return undefined;
+    }
+    
+    return { ...landPlot, role };
+  };
+
+  // Validate measurements and work out the plot's area from them with the
+  // same geometry as the editor, rejecting an area that disagrees
+  const measureLandPlot = (data: unknown, claimedArea: number | undefined) => {
+    const measurements = parseMeasurements(data);
+    if (!hasClosedParcel(measurements)) {
+      throw new ZodError([{
+        code: "custom",
+        path: ["measurements", "parcels"],
+        message: "At least one parcel needs three or more boundary lines"
+      }]);
+    }
+    
+    const area = calculateMeasuredArea(measurements, measurements.calibration ?? null);
+    if (!Number.isFinite(area)) {
+      throw new ZodError([{
+        code: "custom",
+        path: ["measurements"],
+        message: "The measured lengths do not form a valid shape"
+      }]);
+    }
+    
+    const mismatches: string[][] = [];
+    if (Math.abs(measurements.area - area) > AREA_TOLERANCE) {
+      mismatches.push(["measurements", "area"]);
+    }
+    if (claimedArea !== undefined && Math.abs(claimedArea - area) > AREA_TOLERANCE) {
+      mismatches.push(["area"]);
+    }
+    
+    if (mismatches.length > 0) {
+      throw new ZodError(mismatches.map(path => ({
+        code: "custom" as const,
+        path,
+        message: `Does not match the measured area of ${area.toFixed(2)} m²`
+      })));
+    }
+    
+    // Stored to the column's precision, so every backend gives back the same area
+    return { measurements: { ...measurements, area }, area: Number(area.toFixed(AREA_DECIMALS)) };
+  };
+
+  // Keep the plot's measurements as just saved, so later edits can be undone
+  const recordRevision = (landPlot: LandPlot, userId: number) => {
+    return storage.createPlotRevision({
+      landPlotId: landPlot.id,
+      userId,
+      measurements: landPlot.measurements,
+      area: landPlot.area,
+      createdAt: new Date().toISOString()
+    });
+  };
 
   // Save land plot
   app.post("/api/land-plots", async (req, res) => {
     try {
       const landPlotData = insertLandPlotSchema.parse(req.body);
       
-      // Validate measurements structure
-      const measurements = measurementsSchema.parse(landPlotData.measurements);
+      // Validate measurements structure, upgrading plots drawn as independent lines
+      const { measurements, area } = measureLandPlot(landPlotData.measurements, landPlotData.area);
       
-      const savedLandPlot = await storage.createLandPlot(landPlotData);
-      res.status(201).json(savedLandPlot);
+      const savedLandPlot = await storage.createLandPlot({
+        ...landPlotData,
+        measurements,
+        area,
+        userId: req.user!.id
+      });
+      await recordRevision(savedLandPlot, req.user!.id);
+      
+      res.status(201).json({ ...savedLandPlot, role: "owner" });
     } catch (err) {
       if (err instanceof ZodError) {
         const validationError = fromZodError(err);
@@ -32,15 +144,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get land plot by id
   app.get("/api/land-plots/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
-      }
-      
-      const landPlot = await storage.getLandPlot(id);
-      if (!landPlot) {
-        return res.status(404).json({ message: "Land plot not found" });
-      }
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner", "editor", "viewer"]);
+      if (!landPlot) return;
       
       res.json(landPlot);
     } catch (err) {
@@ -51,25 +156,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update land plot
   app.patch("/api/land-plots/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
-      }
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner", "editor"]);
+      if (!landPlot) return;
       
-      // Partial validation of the update data
-      const updateData = req.body;
-      
-      // If measurements are included, validate them
-      if (updateData.measurements) {
-        measurementsSchema.parse(updateData.measurements);
-      }
+      // Only the name and survey can change, never the id, owner or creation date
+      const { measurements, area, ...updateData } = updateLandPlotSchema.parse(req.body);
+      const update: Partial<InsertLandPlot> = measurements !== undefined
+        ? { ...updateData, ...measureLandPlot(measurements, area) }
+        : updateData;
       
-      const updatedLandPlot = await storage.updateLandPlot(id, updateData);
+      const updatedLandPlot = await storage.updateLandPlot(landPlot.id, update);
       if (!updatedLandPlot) {
         return res.status(404).json({ message: "Land plot not found" });
       }
       
-      res.json(updatedLandPlot);
+      // Renaming alone does not make a new version of the survey
+      if (update.measurements !== undefined) {
+        await recordRevision(updatedLandPlot, req.user!.id);
+      }
+      
+      res.json({ ...updatedLandPlot, role: landPlot.role });
     } catch (err) {
       if (err instanceof ZodError) {
         const validationError = fromZodError(err);
@@ -83,12 +189,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete land plot
   app.delete("/api/land-plots/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
-      }
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
       
-      const deleted = await storage.deleteLandPlot(id);
+      const deleted = await storage.deleteLandPlot(landPlot.id);
       if (!deleted) {
         return res.status(404).json({ message: "Land plot not found" });
       }
@@ -99,20 +203,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all land plots (for simplicity without user auth)
+  // Get the logged-in user's land plots and those shared with them
   app.get("/api/land-plots", async (req, res) => {
     try {
-      // In production, we would filter by authenticated user
-      // For now, return all land plots for a userId (hardcoded for simplicity)
-      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      const userId = req.user!.id;
+      const ownLandPlots = await storage.getLandPlotsByUserId(userId);
+      const sharedLandPlots = await storage.getLandPlotsSharedWithUser(userId);
       
-      let landPlots: LandPlot[] = [];
-      if (userId && !isNaN(userId)) {
-        landPlots = await storage.getLandPlotsByUserId(userId);
-      } else {
-        // Return empty array for now
-        landPlots = [];
-      }
+      const landPlots: AccessibleLandPlot[] = [
+        ...ownLandPlots.map(landPlot => ({ ...landPlot, role: "owner" as const })),
+        ...sharedLandPlots
+      ];
       
       res.json(landPlots);
     } catch (err) {
@@ -120,6 +221,242 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List the saved versions of a plot, oldest first
+  app.get("/api/land-plots/:id/revisions", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner", "editor", "viewer"]);
+      if (!landPlot) return;
+      
+      const revisions = await storage.getPlotRevisions(landPlot.id);
+      // Look up each author once rather than once per revision
+      const userIds = new Set(revisions.flatMap(revision => revision.userId ?? []));
+      const usernames = new Map((await storage.getUsers(Array.from(userIds))).map(user => [user.id, user.username]));
+      const summaries: PlotRevisionSummary[] = revisions.map(({ measurements, ...revision }) => ({
+        ...revision,
+        username: revision.userId !== null ? usernames.get(revision.userId) ?? null : null
+      }));
+      
+      res.json(summaries);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to retrieve revisions" });
+    }
+  });
+
+  // Get one saved version of a plot with its measurements
+  app.get("/api/land-plots/:id/revisions/:revisionId", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner", "editor", "viewer"]);
+      if (!landPlot) return;
+      
+      const revisionId = parseInt(req.params.revisionId);
+      if (isNaN(revisionId)) {
+        return res.status(400).json({ message: "Invalid revision ID format" });
+      }
+      
+      const revision = await storage.getPlotRevision(landPlot.id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      res.json(revision);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to retrieve revision" });
+    }
+  });
+
+  // Bring back a saved version; restoring is itself recorded as a new version
+  app.post("/api/land-plots/:id/revisions/:revisionId/restore", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner", "editor"]);
+      if (!landPlot) return;
+      
+      const revisionId = parseInt(req.params.revisionId);
+      if (isNaN(revisionId)) {
+        return res.status(400).json({ message: "Invalid revision ID format" });
+      }
+      
+      const revision = await storage.getPlotRevision(landPlot.id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      // Measured again rather than trusting the stored area, which may have
+      // been worked out under older geometry rules
+      const restored = measureLandPlot(revision.measurements, undefined);
+      const restoredLandPlot = await storage.updateLandPlot(landPlot.id, restored);
+      if (!restoredLandPlot) {
+        return res.status(404).json({ message: "Land plot not found" });
+      }
+      await recordRevision(restoredLandPlot, req.user!.id);
+      
+      res.json({ ...restoredLandPlot, role: landPlot.role });
+    } catch (err) {
+      // A revision saved under an older schema may no longer parse, or no
+      // longer agree with its own area
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to restore revision" });
+      }
+    }
+  });
+
+  // List who a plot is shared with
+  app.get("/api/land-plots/:id/shares", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
+      
+      const shares = await storage.getPlotShares(landPlot.id);
+      const users = await storage.getUsers(shares.map(share => share.userId));
+      const usernames = new Map(users.map(user => [user.id, user.username]));
+      const sharesWithUsers: PlotShareWithUser[] = shares.map(share => ({
+        ...share,
+        username: usernames.get(share.userId) ?? ""
+      }));
+      
+      res.json(sharesWithUsers);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to retrieve shares" });
+    }
+  });
+
+  // Share a plot with a user by username, or change their role
+  app.post("/api/land-plots/:id/shares", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
+      
+      const { username, role } = shareRequestSchema.parse(req.body);
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === landPlot.userId) {
+        return res.status(400).json({ message: "A plot cannot be shared with its owner" });
+      }
+      
+      const share = await storage.savePlotShare({ landPlotId: landPlot.id, userId: user.id, role });
+      res.status(201).json({ ...share, username: user.username });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to share land plot" });
+      }
+    }
+  });
+
+  // Stop sharing a plot with a user
+  app.delete("/api/land-plots/:id/shares/:userId", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
+      
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID format" });
+      }
+      
+      const deleted = await storage.deletePlotShare(landPlot.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Share not found" });
+      }
+      
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ message: "Failed to remove share" });
+    }
+  });
+
+  // List a plot's public share links
+  app.get("/api/land-plots/:id/links", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
+      
+      res.json(await storage.getShareLinks(landPlot.id));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to retrieve share links" });
+    }
+  });
+
+  // Create a public share link with an unguessable token
+  app.post("/api/land-plots/:id/links", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
+      
+      const { expiresAt } = shareLinkRequestSchema.parse(req.body);
+      const shareLink = await storage.createShareLink({
+        landPlotId: landPlot.id,
+        token: randomBytes(24).toString("base64url"),
+        createdAt: new Date().toISOString(),
+        expiresAt: expiresAt ?? null
+      });
+      
+      res.status(201).json(shareLink);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        res.status(500).json({ message: "Failed to create share link" });
+      }
+    }
+  });
+
+  // Revoke a public share link
+  app.delete("/api/land-plots/:id/links/:linkId", async (req, res) => {
+    try {
+      const landPlot = await findAccessibleLandPlot(req, res, ["owner"]);
+      if (!landPlot) return;
+      
+      const linkId = parseInt(req.params.linkId);
+      if (isNaN(linkId)) {
+        return res.status(400).json({ message: "Invalid link ID format" });
+      }
+      
+      const deleted = await storage.deleteShareLink(landPlot.id, linkId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // View a plot through a public share link, without logging in
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const shareLink = await storage.getShareLinkByToken(req.params.token);
+      
+      // Revoked, expired and made-up tokens all look the same from outside
+      if (!shareLink || (shareLink.expiresAt && new Date(shareLink.expiresAt) <= new Date())) {
+        return res.status(404).json({ message: "Share link not found or expired" });
+      }
+      
+      const landPlot = await storage.getLandPlot(shareLink.landPlotId);
+      if (!landPlot) {
+        return res.status(404).json({ message: "Share link not found or expired" });
+      }
+      
+      const publicLandPlot: PublicLandPlot = {
+        name: landPlot.name,
+        measurements: landPlot.measurements,
+        area: landPlot.area,
+        createdAt: landPlot.createdAt
+      };
+      res.json(publicLandPlot);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to retrieve shared land plot" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,244 @@
+import { describe, it, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import type { InsertLandPlot, Measurements } from "@shared/schema";
+import { MemStorage, DbStorage, DuplicateUsernameError, type IStorage } from "./storage";
+import { createDb } from "./db";
+
+const measurements: Measurements = {
+  vertices: [],
+  edges: [],
+  parcels: [],
+  area: 0
+};
+
+// Names are made unique so the suite can run against a database that
+// already holds data
+const uniqueName = (prefix: string) => `${prefix}-${randomBytes(6).toString("hex")}`;
+
+/**
+ * The behaviour every IStorage backend must share
+ */
+function describeStorageContract(name: string, createStorage: () => IStorage) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    const createUser = () => storage.createUser({ username: uniqueName("user"), password: "hash.salt" });
+
+    const createLandPlot = (userId: number, plot: Partial<InsertLandPlot> = {}) => storage.createLandPlot({
+      userId,
+      name: uniqueName("plot"),
+      measurements,
+      area: 12.345,
+      createdAt: new Date().toISOString(),
+      ...plot
+    });
+
+    beforeEach(() => {
+      storage = createStorage();
+    });
+
+    describe("users", () => {
+      it("finds a created user by id and by username", async () => {
+        const user = await createUser();
+
+        assert.deepEqual(await storage.getUser(user.id), user);
+        assert.deepEqual(await storage.getUserByUsername(user.username), user);
+      });
+
+      it("finds several users at once, leaving out unknown ids", async () => {
+        const first = await createUser();
+        const second = await createUser();
+
+        const found = await storage.getUsers([second.id, first.id, second.id + 100000]);
+        assert.deepEqual(found.sort((a, b) => a.id - b.id), [first, second]);
+        assert.deepEqual(await storage.getUsers([]), []);
+      });
+
+      it("rejects a username that is already taken", async () => {
+        const user = await createUser();
+
+        await assert.rejects(
+          storage.createUser({ username: user.username, password: "other.salt" }),
+          DuplicateUsernameError
+        );
+      });
+
+      it("returns undefined for an unknown user", async () => {
+        assert.equal(await storage.getUserByUsername(uniqueName("nobody")), undefined);
+      });
+    });
+
+    describe("land plots", () => {
+      it("keeps the area and measurements as given", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+
+        const found = await storage.getLandPlot(landPlot.id);
+        assert.deepEqual(found, landPlot);
+        assert.equal(found?.area, 12.345);
+        assert.deepEqual(found?.measurements, measurements);
+      });
+
+      it("lists only a user's own plots, oldest first", async () => {
+        const user = await createUser();
+        const other = await createUser();
+        const first = await createLandPlot(user.id);
+        const second = await createLandPlot(user.id);
+        await createLandPlot(other.id);
+
+        const landPlots = await storage.getLandPlotsByUserId(user.id);
+        assert.deepEqual(landPlots.map(landPlot => landPlot.id), [first.id, second.id]);
+      });
+
+      it("updates only the fields given", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+
+        const updated = await storage.updateLandPlot(landPlot.id, { name: "Renamed" });
+        assert.deepEqual(updated, { ...landPlot, name: "Renamed" });
+        assert.deepEqual(await storage.getLandPlot(landPlot.id), updated);
+      });
+
+      it("returns the plot unchanged for an empty update", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+
+        assert.deepEqual(await storage.updateLandPlot(landPlot.id, {}), landPlot);
+      });
+
+      it("reports a missing plot on update and delete", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+        assert.equal(await storage.deleteLandPlot(landPlot.id), true);
+
+        assert.equal(await storage.getLandPlot(landPlot.id), undefined);
+        assert.equal(await storage.updateLandPlot(landPlot.id, { name: "Gone" }), undefined);
+        assert.equal(await storage.deleteLandPlot(landPlot.id), false);
+      });
+
+      it("deletes a plot's revisions, shares and links with it", async () => {
+        const user = await createUser();
+        const other = await createUser();
+        const landPlot = await createLandPlot(user.id);
+        await storage.createPlotRevision({
+          landPlotId: landPlot.id,
+          userId: user.id,
+          measurements,
+          area: landPlot.area,
+          createdAt: landPlot.createdAt
+        });
+        await storage.savePlotShare({ landPlotId: landPlot.id, userId: other.id, role: "viewer" });
+        const shareLink = await storage.createShareLink({
+          landPlotId: landPlot.id,
+          token: uniqueName("token"),
+          createdAt: landPlot.createdAt
+        });
+
+        await storage.deleteLandPlot(landPlot.id);
+
+        assert.deepEqual(await storage.getPlotRevisions(landPlot.id), []);
+        assert.deepEqual(await storage.getPlotShares(landPlot.id), []);
+        assert.deepEqual(await storage.getLandPlotsSharedWithUser(other.id), []);
+        assert.equal(await storage.getShareLinkByToken(shareLink.token), undefined);
+      });
+    });
+
+    describe("revisions", () => {
+      it("lists a plot's revisions oldest first and finds them only through their plot", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+        const otherPlot = await createLandPlot(user.id);
+        const revision = (area: number) => storage.createPlotRevision({
+          landPlotId: landPlot.id,
+          userId: user.id,
+          measurements,
+          area,
+          createdAt: new Date().toISOString()
+        });
+        const first = await revision(1.5);
+        const second = await revision(2.25);
+
+        const revisions = await storage.getPlotRevisions(landPlot.id);
+        assert.deepEqual(revisions, [first, second]);
+        assert.equal(revisions[1].area, 2.25);
+        assert.deepEqual(await storage.getPlotRevision(landPlot.id, first.id), first);
+        assert.equal(await storage.getPlotRevision(otherPlot.id, first.id), undefined);
+      });
+    });
+
+    describe("shares", () => {
+      it("changes the role of an existing share instead of adding another", async () => {
+        const user = await createUser();
+        const other = await createUser();
+        const landPlot = await createLandPlot(user.id);
+
+        const share = await storage.savePlotShare({ landPlotId: landPlot.id, userId: other.id, role: "viewer" });
+        const changed = await storage.savePlotShare({ landPlotId: landPlot.id, userId: other.id, role: "editor" });
+
+        assert.equal(changed.id, share.id);
+        assert.deepEqual(await storage.getPlotShares(landPlot.id), [changed]);
+        assert.deepEqual(await storage.getPlotShare(landPlot.id, other.id), changed);
+      });
+
+      it("lists the plots shared with a user, with their role, until the share is removed", async () => {
+        const user = await createUser();
+        const other = await createUser();
+        const landPlot = await createLandPlot(user.id);
+        await storage.savePlotShare({ landPlotId: landPlot.id, userId: other.id, role: "editor" });
+
+        assert.deepEqual(await storage.getLandPlotsSharedWithUser(other.id), [{ ...landPlot, role: "editor" }]);
+        assert.equal(await storage.deletePlotShare(landPlot.id, other.id), true);
+        assert.deepEqual(await storage.getLandPlotsSharedWithUser(other.id), []);
+        assert.equal(await storage.deletePlotShare(landPlot.id, other.id), false);
+      });
+    });
+
+    describe("share links", () => {
+      it("finds a link by its token, with no expiry unless one is given", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+        const shareLink = await storage.createShareLink({
+          landPlotId: landPlot.id,
+          token: uniqueName("token"),
+          createdAt: new Date().toISOString()
+        });
+
+        assert.equal(shareLink.expiresAt, null);
+        assert.deepEqual(await storage.getShareLinkByToken(shareLink.token), shareLink);
+        assert.deepEqual(await storage.getShareLinks(landPlot.id), [shareLink]);
+      });
+
+      it("deletes a link only through its own plot", async () => {
+        const user = await createUser();
+        const landPlot = await createLandPlot(user.id);
+        const otherPlot = await createLandPlot(user.id);
+        const shareLink = await storage.createShareLink({
+          landPlotId: landPlot.id,
+          token: uniqueName("token"),
+          createdAt: new Date().toISOString(),
+          expiresAt: new Date(Date.now() + 60000).toISOString()
+        });
+
+        assert.equal(await storage.deleteShareLink(otherPlot.id, shareLink.id), false);
+        assert.equal(await storage.deleteShareLink(landPlot.id, shareLink.id), true);
+        assert.deepEqual(await storage.getShareLinks(landPlot.id), []);
+      });
+    });
+  });
+}
+
+describeStorageContract("MemStorage", () => new MemStorage());
+
+// The database must already have the migrations applied (npm run db:migrate)
+const databaseUrl = process.env.DATABASE_URL;
+if (databaseUrl) {
+  const db = createDb(databaseUrl);
+  const dbStorage = new DbStorage(db);
+
+  describeStorageContract("DbStorage", () => dbStorage);
+
+  after(async () => {
+    await db.$client.end();
+  });
+}
@@ -1,14 +1,41 @@
+import { and, eq, inArray } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import { 
   users, type User, type InsertUser,
-  landPlots, type LandPlot, type InsertLandPlot,
+  landPlots, type LandPlot, type LandPlotRow, type InsertLandPlot, type AccessibleLandPlot,
+  plotRevisions, type PlotRevision, type PlotRevisionRow, type InsertPlotRevision,
+  plotShares, type PlotShare, type InsertPlotShare,
+  shareLinks, type ShareLink, type InsertShareLink,
   type Measurements
 } from "@shared/schema";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Thrown by createUser when another account already has the username, so
+// a registration that loses a race can be told apart from a failure
+export class DuplicateUsernameError extends Error {
+  constructor(username: string) {
+    super(`Username ${username} already exists`);
+    this.name = "DuplicateUsernameError";
+  }
+}
+
+// PostgreSQL's error code for a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
+  
   getUser(id: number): Promise<User | undefined>;
+  // The users among the ids, in one lookup; unknown ids are left out
+  getUsers(ids: number[]): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
@@ -18,25 +45,65 @@ export interface IStorage {
   createLandPlot(landPlot: InsertLandPlot): Promise<LandPlot>;
   updateLandPlot(id: number, landPlot: Partial<InsertLandPlot>): Promise<LandPlot | undefined>;
   deleteLandPlot(id: number): Promise<boolean>;
+  
+  // Revision methods
+  getPlotRevision(landPlotId: number, id: number): Promise<PlotRevision | undefined>;
+  // Oldest first
+  getPlotRevisions(landPlotId: number): Promise<PlotRevision[]>;
+  createPlotRevision(revision: InsertPlotRevision): Promise<PlotRevision>;
+  
+  // Sharing methods
+  getPlotShare(landPlotId: number, userId: number): Promise<PlotShare | undefined>;
+  getPlotShares(landPlotId: number): Promise<PlotShare[]>;
+  // Plots shared with a user, each with the role it was shared for
+  getLandPlotsSharedWithUser(userId: number): Promise<AccessibleLandPlot[]>;
+  // Share a plot with a user, or change the role they already have
+  savePlotShare(share: InsertPlotShare): Promise<PlotShare>;
+  deletePlotShare(landPlotId: number, userId: number): Promise<boolean>;
+  
+  // Share link methods
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinks(landPlotId: number): Promise<ShareLink[]>;
+  createShareLink(shareLink: InsertShareLink): Promise<ShareLink>;
+  deleteShareLink(landPlotId: number, id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private landPlots: Map<number, LandPlot>;
+  private plotRevisions: Map<number, PlotRevision>;
+  private plotShares: Map<number, PlotShare>;
+  private shareLinks: Map<number, ShareLink>;
   userCurrentId: number;
   landPlotCurrentId: number;
+  plotRevisionCurrentId: number;
+  plotShareCurrentId: number;
+  shareLinkCurrentId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.landPlots = new Map();
+    this.plotRevisions = new Map();
+    this.plotShares = new Map();
+    this.shareLinks = new Map();
+    // Prune expired sessions once a day
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
     this.userCurrentId = 1;
     this.landPlotCurrentId = 1;
+    this.plotRevisionCurrentId = 1;
+    this.plotShareCurrentId = 1;
+    this.shareLinkCurrentId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
 
+  async getUsers(ids: number[]): Promise<User[]> {
+    return ids.flatMap(id => this.users.get(id) ?? []);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
@@ -44,6 +111,10 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new DuplicateUsernameError(insertUser.username);
+    }
+    
     const id = this.userCurrentId++;
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
@@ -83,8 +154,268 @@ export class MemStorage implements IStorage {
   }
   
   async deleteLandPlot(id: number): Promise<boolean> {
+    // Revisions, shares and links go with the plot, as the foreign keys
+    // cascade in the database
+    Array.from(this.plotRevisions.values())
+      .filter(revision => revision.landPlotId === id)
+      .forEach(revision => this.plotRevisions.delete(revision.id));
+    Array.from(this.plotShares.values())
+      .filter(share => share.landPlotId === id)
+      .forEach(share => this.plotShares.delete(share.id));
+    Array.from(this.shareLinks.values())
+      .filter(shareLink => shareLink.landPlotId === id)
+      .forEach(shareLink => this.shareLinks.delete(shareLink.id));
+    
     return this.landPlots.delete(id);
   }
+  
+  // Revision methods
+  async getPlotRevision(landPlotId: number, id: number): Promise<PlotRevision | undefined> {
+    const revision = this.plotRevisions.get(id);
+    return revision?.landPlotId === landPlotId ? revision : undefined;
+  }
+  
+  async getPlotRevisions(landPlotId: number): Promise<PlotRevision[]> {
+    return Array.from(this.plotRevisions.values())
+      .filter(revision => revision.landPlotId === landPlotId);
+  }
+  
+  async createPlotRevision(insertPlotRevision: InsertPlotRevision): Promise<PlotRevision> {
+    const id = this.plotRevisionCurrentId++;
+    const userId = insertPlotRevision.userId === undefined ? null : insertPlotRevision.userId;
+    const revision: PlotRevision = { ...insertPlotRevision, id, userId };
+    this.plotRevisions.set(id, revision);
+    return revision;
+  }
+  
+  // Sharing methods
+  async getPlotShare(landPlotId: number, userId: number): Promise<PlotShare | undefined> {
+    return Array.from(this.plotShares.values()).find(
+      (share) => share.landPlotId === landPlotId && share.userId === userId,
+    );
+  }
+  
+  async getPlotShares(landPlotId: number): Promise<PlotShare[]> {
+    return Array.from(this.plotShares.values())
+      .filter(share => share.landPlotId === landPlotId);
+  }
+  
+  async getLandPlotsSharedWithUser(userId: number): Promise<AccessibleLandPlot[]> {
+    return Array.from(this.plotShares.values())
+      .filter(share => share.userId === userId)
+      .flatMap(share => {
+        const landPlot = this.landPlots.get(share.landPlotId);
+        return landPlot ? [{ ...landPlot, role: share.role }] : [];
+      });
+  }
+  
+  async savePlotShare(insertPlotShare: InsertPlotShare): Promise<PlotShare> {
+    const existing = await this.getPlotShare(insertPlotShare.landPlotId, insertPlotShare.userId);
+    const share: PlotShare = existing
+      ? { ...existing, role: insertPlotShare.role }
+      : { ...insertPlotShare, id: this.plotShareCurrentId++ };
+    
+    this.plotShares.set(share.id, share);
+    return share;
+  }
+  
+  async deletePlotShare(landPlotId: number, userId: number): Promise<boolean> {
+    const share = await this.getPlotShare(landPlotId, userId);
+    return share ? this.plotShares.delete(share.id) : false;
+  }
+  
+  // Share link methods
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return Array.from(this.shareLinks.values()).find(
+      (shareLink) => shareLink.token === token,
+    );
+  }
+  
+  async getShareLinks(landPlotId: number): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(shareLink => shareLink.landPlotId === landPlotId);
+  }
+  
+  async createShareLink(insertShareLink: InsertShareLink): Promise<ShareLink> {
+    const id = this.shareLinkCurrentId++;
+    const shareLink: ShareLink = { ...insertShareLink, id, expiresAt: insertShareLink.expiresAt ?? null };
+    this.shareLinks.set(id, shareLink);
+    return shareLink;
+  }
+  
+  async deleteShareLink(landPlotId: number, id: number): Promise<boolean> {
+    const shareLink = this.shareLinks.get(id);
+    return shareLink?.landPlotId === landPlotId ? this.shareLinks.delete(id) : false;
+  }
+}
+
+// Areas are numeric columns, which the driver reads and writes as strings
+const toLandPlot = (row: LandPlotRow): LandPlot => ({ ...row, area: Number(row.area) });
+const toPlotRevision = (row: PlotRevisionRow): PlotRevision => ({ ...row, area: Number(row.area) });
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUsers(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (err) {
+      if ((err as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new DuplicateUsernameError(insertUser.username);
+      }
+      throw err;
+    }
+  }
+  
+  // Land plot methods
+  async getLandPlot(id: number): Promise<LandPlot | undefined> {
+    const [landPlot] = await this.db.select().from(landPlots).where(eq(landPlots.id, id));
+    return landPlot && toLandPlot(landPlot);
+  }
+  
+  async getLandPlotsByUserId(userId: number): Promise<LandPlot[]> {
+    const rows = await this.db.select().from(landPlots)
+      .where(eq(landPlots.userId, userId))
+      .orderBy(landPlots.id);
+    return rows.map(toLandPlot);
+  }
+  
+  async createLandPlot(insertLandPlot: InsertLandPlot): Promise<LandPlot> {
+    const [landPlot] = await this.db.insert(landPlots)
+      .values({ ...insertLandPlot, area: String(insertLandPlot.area) })
+      .returning();
+    return toLandPlot(landPlot);
+  }
+  
+  async updateLandPlot(id: number, landPlotUpdate: Partial<InsertLandPlot>): Promise<LandPlot | undefined> {
+    // An empty update has nothing to set; report the plot as it is
+    if (Object.keys(landPlotUpdate).length === 0) {
+      return this.getLandPlot(id);
+    }
+    
+    const { area, ...update } = landPlotUpdate;
+    const [updatedLandPlot] = await this.db.update(landPlots)
+      .set(area !== undefined ? { ...update, area: String(area) } : update)
+      .where(eq(landPlots.id, id))
+      .returning();
+    return updatedLandPlot && toLandPlot(updatedLandPlot);
+  }
+  
+  async deleteLandPlot(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(landPlots)
+      .where(eq(landPlots.id, id))
+      .returning({ id: landPlots.id });
+    return deleted.length > 0;
+  }
+  
+  // Revision methods
+  async getPlotRevision(landPlotId: number, id: number): Promise<PlotRevision | undefined> {
+    const [revision] = await this.db.select().from(plotRevisions)
+      .where(and(eq(plotRevisions.landPlotId, landPlotId), eq(plotRevisions.id, id)));
+    return revision && toPlotRevision(revision);
+  }
+  
+  async getPlotRevisions(landPlotId: number): Promise<PlotRevision[]> {
+    const rows = await this.db.select().from(plotRevisions)
+      .where(eq(plotRevisions.landPlotId, landPlotId))
+      .orderBy(plotRevisions.id);
+    return rows.map(toPlotRevision);
+  }
+  
+  async createPlotRevision(insertPlotRevision: InsertPlotRevision): Promise<PlotRevision> {
+    const [revision] = await this.db.insert(plotRevisions)
+      .values({ ...insertPlotRevision, area: String(insertPlotRevision.area) })
+      .returning();
+    return toPlotRevision(revision);
+  }
+  
+  // Sharing methods
+  async getPlotShare(landPlotId: number, userId: number): Promise<PlotShare | undefined> {
+    const [share] = await this.db.select().from(plotShares)
+      .where(and(eq(plotShares.landPlotId, landPlotId), eq(plotShares.userId, userId)));
+    return share;
+  }
+  
+  async getPlotShares(landPlotId: number): Promise<PlotShare[]> {
+    return this.db.select().from(plotShares)
+      .where(eq(plotShares.landPlotId, landPlotId))
+      .orderBy(plotShares.id);
+  }
+  
+  async getLandPlotsSharedWithUser(userId: number): Promise<AccessibleLandPlot[]> {
+    const rows = await this.db.select({ landPlot: landPlots, role: plotShares.role })
+      .from(plotShares)
+      .innerJoin(landPlots, eq(plotShares.landPlotId, landPlots.id))
+      .where(eq(plotShares.userId, userId))
+      .orderBy(plotShares.id);
+    return rows.map(row => ({ ...toLandPlot(row.landPlot), role: row.role }));
+  }
+  
+  async savePlotShare(insertPlotShare: InsertPlotShare): Promise<PlotShare> {
+    const [share] = await this.db.insert(plotShares)
+      .values(insertPlotShare)
+      .onConflictDoUpdate({
+        target: [plotShares.landPlotId, plotShares.userId],
+        set: { role: insertPlotShare.role }
+      })
+      .returning();
+    return share;
+  }
+  
+  async deletePlotShare(landPlotId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(plotShares)
+      .where(and(eq(plotShares.landPlotId, landPlotId), eq(plotShares.userId, userId)))
+      .returning({ id: plotShares.id });
+    return deleted.length > 0;
+  }
+  
+  // Share link methods
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [shareLink] = await this.db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return shareLink;
+  }
+  
+  async getShareLinks(landPlotId: number): Promise<ShareLink[]> {
+    return this.db.select().from(shareLinks)
+      .where(eq(shareLinks.landPlotId, landPlotId))
+      .orderBy(shareLinks.id);
+  }
+  
+  async createShareLink(insertShareLink: InsertShareLink): Promise<ShareLink> {
+    const [shareLink] = await this.db.insert(shareLinks).values(insertShareLink).returning();
+    return shareLink;
+  }
+  
+  async deleteShareLink(landPlotId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(shareLinks)
+      .where(and(eq(shareLinks.landPlotId, landPlotId), eq(shareLinks.id, id)))
+      .returning({ id: shareLinks.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Plots are kept in PostgreSQL when a database is configured, and in memory
+// (lost on restart) otherwise
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,216 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Point, PlotGraph } from "./schema";
+import {
+  calculateDistance, calculatePolygonArea, calculateSignedArea, calculatePerimeter, calculateCentroid, calculateTriangleArea,
+  findSelfIntersections, isSelfIntersecting, segmentsIntersect, solveSurveyedPolygon, surveyParcel,
+  calculateMeasuredArea, getMetersPerPixel
+} from "./geometry";
+import { assertClose, line, ring } from "./test-helpers";
+
+const square: Point[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+
+describe("calculateDistance", () => {
+  it("measures a 3-4-5 triangle's hypotenuse", () => {
+    assert.equal(calculateDistance({ x: 1, y: 2 }, { x: 4, y: 6 }), 5);
+  });
+});
+
+describe("getMetersPerPixel", () => {
+  it("divides the true length by the drawn length", () => {
+    assert.equal(getMetersPerPixel({ startPoint: { x: 0, y: 0 }, endPoint: { x: 200, y: 0 }, length: 50 }), 0.25);
+  });
+
+  it("is zero for a reference line of no length", () => {
+    assert.equal(getMetersPerPixel({ startPoint: { x: 5, y: 5 }, endPoint: { x: 5, y: 5 }, length: 50 }), 0);
+  });
+});
+
+describe("calculatePolygonArea", () => {
+  it("gives the area of a square in either direction", () => {
+    assert.equal(calculatePolygonArea(square), 100);
+    assert.equal(calculatePolygonArea([...square].reverse()), 100);
+  });
+
+  it("gives the area of a right triangle", () => {
+    assert.equal(calculatePolygonArea([{ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 0, y: 40 }]), 600);
+  });
+
+  it("gives the area of a concave L-shape", () => {
+    const lShape = [
+      { x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 },
+      { x: 10, y: 10 }, { x: 10, y: 30 }, { x: 0, y: 30 }
+    ];
+    assert.equal(calculatePolygonArea(lShape), 400);
+  });
+
+  it("is zero for fewer than three corners", () => {
+    assert.equal(calculatePolygonArea([{ x: 0, y: 0 }, { x: 10, y: 10 }]), 0);
+  });
+});
+
+describe("calculateSignedArea", () => {
+  it("is positive counterclockwise and negative clockwise", () => {
+    assert.equal(calculateSignedArea(square), 100);
+    assert.equal(calculateSignedArea([...square].reverse()), -100);
+  });
+});
+
+describe("calculatePerimeter", () => {
+  it("goes all the way around, with or without a repeated first corner", () => {
+    assert.equal(calculatePerimeter(square), 40);
+    assert.equal(calculatePerimeter([...square, square[0]]), 40);
+  });
+});
+
+describe("calculateCentroid", () => {
+  it("finds the middle of a rectangle", () => {
+    const rectangle = [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 10 }, { x: 0, y: 10 }];
+    assert.deepEqual(calculateCentroid(rectangle), { x: 20, y: 5 });
+  });
+
+  it("finds the centre of mass of an L-shape, not the average of its corners", () => {
+    const lShape = [
+      { x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 },
+      { x: 10, y: 10 }, { x: 10, y: 30 }, { x: 0, y: 30 }
+    ];
+    // A 20 x 10 block centred at (10, 5) and a 10 x 20 block centred at (5, 20)
+    const centroid = calculateCentroid(lShape);
+    assertClose(centroid.x, (200 * 10 + 200 * 5) / 400);
+    assertClose(centroid.y, (200 * 5 + 200 * 20) / 400);
+  });
+
+  it("falls back to the average of the corners when there is no area", () => {
+    assert.deepEqual(calculateCentroid([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 20, y: 0 }]), { x: 10, y: 0 });
+  });
+});
+
+describe("calculateTriangleArea", () => {
+  it("uses Heron's formula", () => {
+    assert.equal(calculateTriangleArea(3, 4, 5), 6);
+    assertClose(calculateTriangleArea(10, 10, 10), 25 * Math.sqrt(3));
+  });
+
+  it("allows a flat triangle but rejects impossible sides", () => {
+    assert.equal(calculateTriangleArea(1, 2, 3), 0);
+    assert.ok(Number.isNaN(calculateTriangleArea(1, 2, 4)));
+  });
+});
+
+describe("self-intersection", () => {
+  it("finds the crossing sides of a bow tie", () => {
+    const bowTie = [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+    assert.deepEqual(findSelfIntersections(bowTie), [[0, 2]]);
+    assert.equal(isSelfIntersecting(bowTie), true);
+  });
+
+  it("accepts a simple polygon, even closed with its first corner", () => {
+    assert.equal(isSelfIntersecting(square), false);
+    assert.equal(isSelfIntersecting([...square, square[0]]), false);
+  });
+
+  it("counts segments that only touch as intersecting", () => {
+    assert.equal(segmentsIntersect({ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 5 }), true);
+    assert.equal(segmentsIntersect({ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 1 }, { x: 10, y: 1 }), false);
+  });
+});
+
+describe("solveSurveyedPolygon", () => {
+  it("walks a traverse from the measured lengths along the drawn directions", () => {
+    // Drawn at 2 pixels per meter
+    const drawn = square.map(point => ({ x: point.x * 2, y: point.y * 2 }));
+    const survey = solveSurveyedPolygon(ring(drawn, [10, 10, 10, 10]));
+
+    assertClose(survey.area, 100);
+    assert.equal(survey.perimeter, 40);
+    assertClose(survey.closingError, 0);
+  });
+
+  it("reports the gap left by a mismeasured line as the closing error", () => {
+    const survey = solveSurveyedPolygon(ring(square, [11, 10, 10, 10]));
+
+    assertClose(survey.closingError, 1);
+    assert.equal(survey.perimeter, 41);
+  });
+
+  it("takes the shape from the lengths alone when diagonals triangulate the plot", () => {
+    // Drawn as a square, but measured as a 3 x 4 rectangle with its 5 m diagonal
+    const lines = [
+      ...ring(square, [3, 4, 3, 4]),
+      line(square[0], square[2], 5, "diagonal")
+    ];
+    const survey = solveSurveyedPolygon(lines);
+
+    assertClose(survey.area, 12);
+    assert.equal(survey.closingError, 0);
+    assertClose(calculatePolygonArea(survey.vertices), 12);
+  });
+
+  it("checks the plot against diagonals beyond those it needs", () => {
+    // Both diagonals of the 3 x 4 rectangle, the second measured 0.2 m long
+    const lines = [
+      ...ring(square, [3, 4, 3, 4]),
+      line(square[0], square[2], 5, "diagonal"),
+      line(square[1], square[3], 5.2, "diagonal")
+    ];
+    const survey = solveSurveyedPolygon(lines);
+
+    assertClose(survey.area, 12);
+    assert.equal(survey.checkLines.length, 1);
+    assert.equal(survey.checkLines[0].lineId, lines[5].id);
+    assert.equal(survey.checkLines[0].measured, 5.2);
+    assertClose(survey.checkLines[0].solved, 5);
+  });
+
+  it("falls back to the traverse when a triangle's sides are impossible", () => {
+    const lines = [
+      ...ring(square, [10, 10, 10, 10]),
+      line(square[0], square[2], 25, "diagonal")
+    ];
+    assertClose(solveSurveyedPolygon(lines).area, 100);
+  });
+
+  it("has no area with fewer than three boundary lines", () => {
+    const survey = solveSurveyedPolygon([line({ x: 0, y: 0 }, { x: 10, y: 0 }, 10)]);
+    assert.equal(survey.area, 0);
+    assert.deepEqual(survey.vertices, []);
+  });
+});
+
+describe("parcels", () => {
+  // A 20 x 10 m parcel drawn at 1 pixel per meter, with a 2 x 3 m pond
+  const graph: PlotGraph = {
+    vertices: [
+      { id: 1, x: 0, y: 0 }, { id: 2, x: 20, y: 0 }, { id: 3, x: 20, y: 10 }, { id: 4, x: 0, y: 10 },
+      { id: 5, x: 5, y: 5 }, { id: 6, x: 7, y: 5 }, { id: 7, x: 7, y: 8 }, { id: 8, x: 5, y: 8 }
+    ],
+    edges: [
+      [1, 2, 20], [2, 3, 10], [3, 4, 20], [4, 1, 10],
+      [5, 6, 2], [6, 7, 3], [7, 8, 2], [8, 5, 3]
+    ].map(([startVertexId, endVertexId, length], i) => ({
+      id: i + 1, startVertexId, endVertexId, length, kind: "boundary" as const, manualLength: false
+    })),
+    parcels: [{
+      id: 1,
+      name: "Bidang 1",
+      color: "#3b82f6",
+      edgeIds: [1, 2, 3, 4],
+      holes: [{ id: 1, name: "Kolam", edgeIds: [5, 6, 7, 8] }]
+    }]
+  };
+
+  it("excludes holes from a parcel's area", () => {
+    const survey = surveyParcel(graph, graph.parcels[0]);
+
+    assertClose(survey.grossArea, 200);
+    assertClose(survey.excludedArea, 6);
+    assertClose(survey.netArea, 194);
+  });
+
+  it("measures lengths from the calibration unless they were typed in", () => {
+    // 2 pixels to the meter halves every side
+    const calibration = { startPoint: { x: 0, y: 0 }, endPoint: { x: 20, y: 0 }, length: 10 };
+    assertClose(calculateMeasuredArea(graph, calibration), 50 - 1.5);
+    assertClose(calculateMeasuredArea(graph, null), 194);
+  });
+});
@@ -0,0 +1,590 @@
+import { 
+  type Point, type Line, type Calibration, type Parcel, type PlotGraph 
+} from "./schema";
+import { resolveParcelLines, resolveRingLines } from "./measurements";
+
+/**
+ * Calculate the distance between two points
+ */
+export function calculateDistance(point1: Point, point2: Point): number {
+  const dx = point2.x - point1.x;
+  const dy = point2.y - point1.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Calculate how many meters one canvas pixel represents
+ */
+export function getMetersPerPixel(calibration: Calibration): number {
+  const pixelLength = calculateDistance(calibration.startPoint, calibration.endPoint);
+  return pixelLength > 0 ? calibration.length / pixelLength : 0;
+}
+
+/**
+ * How many meters one canvas pixel represents: from the calibration when
+ * there is one, otherwise from how long the lines were measured against
+ * how long they were drawn
+ */
+export function estimateMetersPerPixel(graph: PlotGraph, calibration: Calibration | null): number {
+  if (calibration) {
+    const metersPerPixel = getMetersPerPixel(calibration);
+    if (metersPerPixel > 0) return metersPerPixel;
+  }
+  
+  const vertices = new Map(graph.vertices.map(vertex => [vertex.id, vertex]));
+  let measured = 0;
+  let drawn = 0;
+  
+  for (const edge of graph.edges) {
+    const start = vertices.get(edge.startVertexId);
+    const end = vertices.get(edge.endVertexId);
+    if (!start || !end) continue;
+    
+    measured += edge.length;
+    drawn += calculateDistance(start, end);
+  }
+  
+  return drawn > 0 && measured > 0 ? measured / drawn : 1;
+}
+
+/**
+ * Derive edge lengths from their pixel geometry using the calibration
+ * Edges whose length was typed in keep it; others are rounded to centimeters
+ */
+export function applyCalibration(graph: PlotGraph, calibration: Calibration | null): PlotGraph {
+  if (!calibration) return graph;
+  
+  const metersPerPixel = getMetersPerPixel(calibration);
+  if (metersPerPixel === 0) return graph;
+  
+  const vertices = new Map(graph.vertices.map(vertex => [vertex.id, vertex]));
+  
+  return {
+    ...graph,
+    edges: graph.edges.map(edge => {
+      const start = vertices.get(edge.startVertexId);
+      const end = vertices.get(edge.endVertexId);
+      if (edge.manualLength || !start || !end) return edge;
+      
+      const length = Math.round(calculateDistance(start, end) * metersPerPixel * 100) / 100;
+      return length === edge.length ? edge : { ...edge, length };
+    })
+  };
+}
+
+/**
+ * Calculate the area of a polygon defined by an array of points, positive
+ * when the corners run counterclockwise with y to the north (clockwise on
+ * the canvas, where y points down) and negative the other way
+ * Uses the Shoelace formula (Gauss's area formula)
+ */
+export function calculateSignedArea(vertices: Point[]): number {
+  if (vertices.length < 3) return 0;
+  
+  // Apply the Shoelace formula
+  let area = 0;
+  
+  for (let i = 0; i < vertices.length; i++) {
+    const j = (i + 1) % vertices.length;
+    area += vertices[i].x * vertices[j].y;
+    area -= vertices[j].x * vertices[i].y;
+  }
+  
+  return area / 2;
+}
+
+/**
+ * Calculate the area of a polygon defined by an array of points
+ */
+export function calculatePolygonArea(vertices: Point[]): number {
+  return Math.abs(calculateSignedArea(vertices));
+}
+
+/**
+ * Drop the repeated first corner a closed outline may end with
+ */
+function toOpenRing(vertices: Point[]): Point[] {
+  if (vertices.length < 2) return vertices;
+  
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  return first.x === last.x && first.y === last.y ? vertices.slice(0, -1) : vertices;
+}
+
+/**
+ * Calculate the length all the way around a polygon, back to its start
+ */
+export function calculatePerimeter(vertices: Point[]): number {
+  const ring = toOpenRing(vertices);
+  if (ring.length < 2) return 0;
+  
+  return ring.reduce((sum, vertex, i) => sum + calculateDistance(vertex, ring[(i + 1) % ring.length]), 0);
+}
+
+/**
+ * Calculate the centre of mass of a polygon
+ * A polygon without area falls back to the average of its corners
+ */
+export function calculateCentroid(vertices: Point[]): Point {
+  const ring = toOpenRing(vertices);
+  if (ring.length === 0) return { x: 0, y: 0 };
+  
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+  
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    const cross = a.x * b.y - b.x * a.y;
+    
+    twiceArea += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  
+  if (Math.abs(twiceArea) < 1e-9) {
+    return {
+      x: ring.reduce((sum, vertex) => sum + vertex.x, 0) / ring.length,
+      y: ring.reduce((sum, vertex) => sum + vertex.y, 0) / ring.length
+    };
+  }
+  
+  return { x: cx / (3 * twiceArea), y: cy / (3 * twiceArea) };
+}
+
+/**
+ * Which side of the line through a and b the point c lies on:
+ * positive on one side, negative on the other, zero on the line
+ */
+function orientation(a: Point, b: Point, c: Point): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+/**
+ * Check whether point c, known to be on the line through a and b, lies
+ * between them
+ */
+function isOnSegment(a: Point, b: Point, c: Point): boolean {
+  return Math.min(a.x, b.x) <= c.x && c.x <= Math.max(a.x, b.x)
+    && Math.min(a.y, b.y) <= c.y && c.y <= Math.max(a.y, b.y);
+}
+
+/**
+ * Check whether two line segments touch or cross
+ */
+export function segmentsIntersect(a1: Point, a2: Point, b1: Point, b2: Point): boolean {
+  const d1 = orientation(b1, b2, a1);
+  const d2 = orientation(b1, b2, a2);
+  const d3 = orientation(a1, a2, b1);
+  const d4 = orientation(a1, a2, b2);
+  
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  
+  return (d1 === 0 && isOnSegment(b1, b2, a1))
+    || (d2 === 0 && isOnSegment(b1, b2, a2))
+    || (d3 === 0 && isOnSegment(a1, a2, b1))
+    || (d4 === 0 && isOnSegment(a1, a2, b2));
+}
+
+/**
+ * Find the pairs of polygon sides that cross each other, each side
+ * numbered by the corner it starts from. Neighbouring sides share a
+ * corner, so they are only compared with sides further along.
+ */
+export function findSelfIntersections(vertices: Point[]): [number, number][] {
+  const ring = toOpenRing(vertices);
+  const count = ring.length;
+  const crossings: [number, number][] = [];
+  if (count < 4) return crossings;
+  
+  for (let i = 0; i < count; i++) {
+    // The last side meets the first one at the starting corner
+    for (let j = i + 2; j < (i === 0 ? count - 1 : count); j++) {
+      if (segmentsIntersect(ring[i], ring[(i + 1) % count], ring[j], ring[(j + 1) % count])) {
+        crossings.push([i, j]);
+      }
+    }
+  }
+  
+  return crossings;
+}
+
+export function isSelfIntersecting(vertices: Point[]): boolean {
+  return findSelfIntersections(vertices).length > 0;
+}
+
+/**
+ * Calculate the area of a triangle from its three side lengths
+ * Uses Heron's formula; returns NaN when the sides cannot form a triangle
+ */
+export function calculateTriangleArea(a: number, b: number, c: number): number {
+  const s = (a + b + c) / 2;
+  const product = s * (s - a) * (s - b) * (s - c);
+  
+  // Allow for rounding in lengths that describe a flat triangle
+  if (product < -1e-9) return NaN;
+  
+  return Math.sqrt(Math.max(product, 0));
+}
+
+/**
+ * Split lines into the plot boundary and the interior diagonals
+ */
+export function getBoundaryLines(lines: Line[]): Line[] {
+  return lines.filter(line => line.kind !== "diagonal");
+}
+
+export function getDiagonalLines(lines: Line[]): Line[] {
+  return lines.filter(line => line.kind === "diagonal");
+}
+
+/**
+ * Find the index of the vertex a point sits on, or -1 if it is on none
+ */
+export function findVertexIndex(vertices: Point[], point: Point, tolerance: number = 5): number {
+  return vertices.findIndex(vertex => calculateDistance(vertex, point) < tolerance);
+}
+
+/**
+ * A measured diagonal that was not needed to build the shape, with the
+ * distance between its corners in the shape built from the others
+ */
+export interface CheckLine {
+  lineId: number;
+  measured: number;
+  solved: number;
+}
+
+/**
+ * A polygon rebuilt in real-world units from the measured line lengths
+ */
+export interface SurveyedPolygon {
+  vertices: Point[];
+  area: number;
+  perimeter: number;
+  closingError: number;
+  // Diagonals left over once the plot is triangulated, to check it against
+  checkLines: CheckLine[];
+}
+
+/**
+ * Reconstruct the real polygon from the measured lines.
+ * The typed lengths are authoritative. When the diagonals split the plot
+ * into triangles the shape follows from the lengths alone; otherwise the
+ * direction of each line is taken from the drawing.
+ */
+export function solveSurveyedPolygon(lines: Line[]): SurveyedPolygon {
+  const boundary = getBoundaryLines(lines);
+  if (boundary.length < 3) {
+    return { vertices: [], area: 0, perimeter: 0, closingError: 0, checkLines: [] };
+  }
+  
+  return solveTriangulatedPolygon(boundary, getDiagonalLines(lines))
+    ?? solveTraverse(boundary);
+}
+
+/**
+ * The surveyed outer boundary and holes of a parcel, with the area left
+ * once the holes are excluded
+ */
+export interface ParcelSurvey {
+  boundary: SurveyedPolygon;
+  holes: Map<number, SurveyedPolygon>;
+  grossArea: number;
+  excludedArea: number;
+  netArea: number;
+}
+
+/**
+ * Survey a parcel's outer boundary and each of its holes
+ */
+export function surveyParcel(graph: PlotGraph, parcel: Parcel): ParcelSurvey {
+  const boundary = solveSurveyedPolygon(resolveParcelLines(graph, parcel));
+  const holes = new Map(parcel.holes.map(hole => [
+    hole.id,
+    solveSurveyedPolygon(resolveRingLines(graph, hole.edgeIds))
+  ]));
+  
+  const excludedArea = Array.from(holes.values()).reduce((sum, hole) => sum + hole.area, 0);
+  
+  return {
+    boundary,
+    holes,
+    grossArea: boundary.area,
+    excludedArea,
+    netArea: Math.max(boundary.area - excludedArea, 0)
+  };
+}
+
+/**
+ * Whether any parcel has enough boundary lines to enclose an area
+ */
+export function hasClosedParcel(graph: PlotGraph): boolean {
+  return graph.parcels.some(parcel => getBoundaryLines(resolveParcelLines(graph, parcel)).length >= 3);
+}
+
+/**
+ * Total area of every parcel once holes are excluded, with lengths
+ * following the calibration as they do in the editor
+ */
+export function calculateMeasuredArea(graph: PlotGraph, calibration: Calibration | null): number {
+  const measuredGraph = applyCalibration(graph, calibration);
+  return measuredGraph.parcels.reduce((sum, parcel) => sum + surveyParcel(measuredGraph, parcel).netArea, 0);
+}
+
+/**
+ * One line of a traverse: its measured length laid along its entered
+ * bearing, or else its drawn direction, in canvas coordinates
+ */
+export interface TraverseLeg {
+  lineId: number;
+  length: number;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Turn boundary lines into traverse legs, skipping lines with no direction
+ */
+export function getTraverseLegs(lines: Line[]): TraverseLeg[] {
+  return lines.flatMap(line => {
+    // North is up the canvas, where y gets smaller
+    if (line.bearing !== undefined) {
+      const radians = line.bearing * Math.PI / 180;
+      return [{
+        lineId: line.id,
+        length: line.length,
+        dx: Math.sin(radians) * line.length,
+        dy: -Math.cos(radians) * line.length
+      }];
+    }
+    
+    const pixelLength = calculateDistance(line.startPoint, line.endPoint);
+    if (pixelLength === 0) return [];
+    
+    return [{
+      lineId: line.id,
+      length: line.length,
+      dx: (line.endPoint.x - line.startPoint.x) / pixelLength * line.length,
+      dy: (line.endPoint.y - line.startPoint.y) / pixelLength * line.length
+    }];
+  });
+}
+
+/**
+ * Walk the boundary lines head to tail using the drawn directions, so the
+ * angles between consecutive lines are preserved. The end of the traverse
+ * should land back on its start - the remaining gap is the closing error.
+ */
+function solveTraverse(lines: Line[]): SurveyedPolygon {
+  const empty: SurveyedPolygon = { vertices: [], area: 0, perimeter: 0, closingError: 0, checkLines: [] };
+  
+  const vertices: Point[] = [{ x: 0, y: 0 }];
+  let perimeter = 0;
+  
+  for (const leg of getTraverseLegs(lines)) {
+    const previous = vertices[vertices.length - 1];
+    vertices.push({ x: previous.x + leg.dx, y: previous.y + leg.dy });
+    perimeter += leg.length;
+  }
+  
+  if (vertices.length < 4) return empty;
+  
+  // The area of the open traverse is closed by the gap itself; the last
+  // vertex should coincide with the first one
+  const area = calculatePolygonArea(vertices);
+  const closingPoint = vertices.pop()!;
+  const closingError = calculateDistance(closingPoint, vertices[0]);
+  
+  return { vertices, area, perimeter, closingError, checkLines: [] };
+}
+
+/**
+ * Build the polygon from triangles whose three sides were all measured.
+ * Diagonals beyond the n - 3 that triangulate the plot, such as both
+ * diagonals of a quadrilateral, are kept as checks on the result.
+ * Returns null unless the diagonals triangulate the whole plot and every
+ * triangle satisfies the triangle inequality.
+ */
+function solveTriangulatedPolygon(boundary: Line[], diagonals: Line[]): SurveyedPolygon | null {
+  const count = boundary.length;
+  const pixelVertices = boundary.map(line => line.startPoint);
+  const lengths = new Map<string, number>();
+  const edgeKey = (a: number, b: number) => a < b ? `${a}-${b}` : `${b}-${a}`;
+  
+  boundary.forEach((line, i) => lengths.set(edgeKey(i, (i + 1) % count), line.length));
+  
+  // Whether corner i lies strictly between corners a and b going round the plot
+  const isBetween = (i: number, a: number, b: number) => {
+    const offset = (i - a + count) % count;
+    return offset > 0 && offset < (b - a + count) % count;
+  };
+  // Two diagonals cross when they share no corner and each separates the
+  // ends of the other
+  const crosses = ([a, b]: [number, number], [c, d]: [number, number]) =>
+    a !== c && a !== d && b !== c && b !== d && isBetween(c, a, b) !== isBetween(d, a, b);
+  
+  // The first diagonals that do not cross build the triangles; one crossing
+  // them, or joining corners already joined, is only a check
+  const chords: [number, number][] = [];
+  const checks: { line: Line; a: number; b: number }[] = [];
+  for (const diagonal of diagonals) {
+    const a = findVertexIndex(pixelVertices, diagonal.startPoint);
+    const b = findVertexIndex(pixelVertices, diagonal.endPoint);
+    if (a === -1 || b === -1 || a === b) continue;
+    
+    if (lengths.has(edgeKey(a, b)) || chords.some(chord => crosses(chord, [a, b]))) {
+      checks.push({ line: diagonal, a, b });
+    } else {
+      chords.push([a, b]);
+      lengths.set(edgeKey(a, b), diagonal.length);
+    }
+  }
+  
+  // In a triangulated polygon every triangle of measured lines is a face,
+  // and there are exactly n - 2 of them
+  const triangles: [number, number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (!lengths.has(edgeKey(i, j))) continue;
+      for (let k = j + 1; k < count; k++) {
+        if (lengths.has(edgeKey(j, k)) && lengths.has(edgeKey(i, k))) {
+          triangles.push([i, j, k]);
+        }
+      }
+    }
+  }
+  
+  if (triangles.length !== count - 2) return null;
+  
+  let area = 0;
+  for (const [i, j, k] of triangles) {
+    const triangleArea = calculateTriangleArea(
+      lengths.get(edgeKey(i, j))!,
+      lengths.get(edgeKey(j, k))!,
+      lengths.get(edgeKey(i, k))!
+    );
+    if (isNaN(triangleArea)) return null;
+    area += triangleArea;
+  }
+  
+  // Lay out the first side along its drawn direction, then unfold the
+  // triangles one by one on the same side as in the drawing
+  const vertices: (Point | undefined)[] = new Array(count);
+  const firstPixelLength = calculateDistance(pixelVertices[0], pixelVertices[1]);
+  if (firstPixelLength === 0) return null;
+  
+  vertices[0] = { x: 0, y: 0 };
+  vertices[1] = {
+    x: (pixelVertices[1].x - pixelVertices[0].x) / firstPixelLength * boundary[0].length,
+    y: (pixelVertices[1].y - pixelVertices[0].y) / firstPixelLength * boundary[0].length
+  };
+  
+  let placed = 2;
+  while (placed < count) {
+    const before = placed;
+    
+    for (const triangle of triangles) {
+      const known = triangle.filter(index => vertices[index]);
+      if (known.length !== 2) continue;
+      
+      const [a, b] = known;
+      const c = triangle.find(index => !vertices[index])!;
+      vertices[c] = placeTriangleApex(
+        vertices[a]!, vertices[b]!,
+        lengths.get(edgeKey(a, c))!, lengths.get(edgeKey(b, c))!,
+        pixelVertices[a], pixelVertices[b], pixelVertices[c]
+      );
+      placed++;
+    }
+    
+    if (placed === before) return null;
+  }
+  
+  return {
+    vertices: vertices as Point[],
+    area,
+    perimeter: boundary.reduce((sum, line) => sum + line.length, 0),
+    closingError: 0,
+    checkLines: checks.map(({ line, a, b }) => ({
+      lineId: line.id,
+      measured: line.length,
+      solved: calculateDistance(vertices[a]!, vertices[b]!)
+    }))
+  };
+}
+
+/**
+ * Place the third corner of a triangle from its distances to two known
+ * corners, on the same side of the base as the drawn corner
+ */
+function placeTriangleApex(
+  a: Point, b: Point, distanceA: number, distanceB: number,
+  pixelA: Point, pixelB: Point, pixelC: Point
+): Point {
+  const base = calculateDistance(a, b);
+  const ux = (b.x - a.x) / base;
+  const uy = (b.y - a.y) / base;
+  
+  const along = (distanceA * distanceA - distanceB * distanceB + base * base) / (2 * base);
+  const offset = Math.sqrt(Math.max(distanceA * distanceA - along * along, 0));
+  
+  const cross = (pixelB.x - pixelA.x) * (pixelC.y - pixelA.y) - (pixelB.y - pixelA.y) * (pixelC.x - pixelA.x);
+  const side = cross < 0 ? -1 : 1;
+  
+  return {
+    x: a.x + ux * along - uy * offset * side,
+    y: a.y + uy * along + ux * offset * side
+  };
+}
+
+/**
+ * Check if points form a closed polygon
+ */
+export function isClosedPolygon(points: Point[]): boolean {
+  if (points.length < 3) return false;
+  
+  // Check if the last point is close to the first point
+  const firstPoint = points[0];
+  const lastPoint = points[points.length - 1];
+  
+  const distance = calculateDistance(firstPoint, lastPoint);
+  
+  // Consider it closed if the distance is very small
+  return distance < 5;
+}
+
+/**
+ * Extract vertices from the boundary line segments
+ * This assumes lines are connected end-to-end in order
+ * And ensures the polygon is closed for area calculation
+ */
+export function extractVerticesFromLines(allLines: Line[]): Point[] {
+  // Diagonals are interior tie lines, not part of the outline
+  const lines = getBoundaryLines(allLines);
+  if (lines.length === 0) return [];
+  
+  // Start with the first line's start point
+  const vertices: Point[] = [lines[0].startPoint];
+  
+  // Add each line's end point
+  for (const line of lines) {
+    vertices.push(line.endPoint);
+  }
+  
+  // For area calculation, ensure the polygon is closed by adding the first point again if needed
+  if (lines.length >= 3) {
+    const firstPoint = vertices[0];
+    const lastPoint = vertices[vertices.length - 1];
+    
+    // If the first and last points are not the same, add the first point again to close the polygon
+    if (firstPoint.x !== lastPoint.x || firstPoint.y !== lastPoint.y) {
+      vertices.push(firstPoint);
+    }
+  }
+  
+  return vertices;
+}
@@ -0,0 +1,22 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { addRingToParcel, createEmptyGraph, moveVertex, resolveParcelLines } from "./measurements";
+
+describe("moveVertex", () => {
+  // A 10 m square entered as bearings, clockwise from its top-left corner
+  const corners = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+  const graph = addRingToParcel(createEmptyGraph(), 1, null, corners, [10, 10, 10, 10], [90, 180, 270, 0]);
+
+  it("drops the bearings of the edges that meet at the moved corner", () => {
+    const moved = moveVertex(graph, graph.vertices[2].id, { x: 12, y: 11 });
+
+    assert.deepEqual(moved.vertices[2], { id: graph.vertices[2].id, x: 12, y: 11 });
+    assert.deepEqual(resolveParcelLines(moved, moved.parcels[0]).map(line => line.bearing), [90, undefined, undefined, 0]);
+  });
+
+  it("keeps the typed lengths", () => {
+    const moved = moveVertex(graph, graph.vertices[2].id, { x: 12, y: 11 });
+
+    assert.deepEqual(moved.edges.map(edge => [edge.length, edge.manualLength]), graph.edges.map(() => [10, true]));
+  });
+});
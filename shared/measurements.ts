@@ -0,0 +1,388 @@
+import {
+  measurementsSchema,
+  singleParcelMeasurementsSchema,
+  legacyMeasurementsSchema,
+  type Point,
+  type Line,
+  type Edge,
+  type Hole,
+  type Parcel,
+  type PlotGraph,
+  type Measurements,
+  type SingleParcelMeasurements,
+  type LegacyMeasurements
+} from "./schema";
+
+// Line ends closer than this (in pixels) are treated as the same corner
+const VERTEX_MERGE_DISTANCE = 5;
+
+// Colours handed out to parcels in the order they are created
+export const PARCEL_COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#EF4444", "#8B5CF6", "#EC4899", "#14B8A6", "#84CC16"];
+
+/**
+ * Create a parcel with the next free id, name and colour
+ */
+export function createParcel(parcels: Parcel[], name?: string): Parcel {
+  const id = nextId(parcels);
+
+  return {
+    id,
+    name: name ?? `Bidang ${id}`,
+    color: PARCEL_COLORS[(id - 1) % PARCEL_COLORS.length],
+    edgeIds: [],
+    holes: []
+  };
+}
+
+/**
+ * Create an excluded area with the next free id within its parcel
+ */
+export function createHole(parcel: Parcel, name?: string): Hole {
+  const id = nextId(parcel.holes);
+  return { id, name: name ?? `Area Dikecualikan ${id}`, edgeIds: [] };
+}
+
+/**
+ * A project with a single empty parcel to draw into
+ */
+export function createEmptyGraph(): PlotGraph {
+  return { vertices: [], edges: [], parcels: [createParcel([])] };
+}
+
+/**
+ * Resolve the edges of a graph into lines with their own end points
+ */
+export function resolveLines(graph: PlotGraph): Line[] {
+  const vertices = new Map(graph.vertices.map(vertex => [vertex.id, vertex]));
+
+  return graph.edges.flatMap(edge => {
+    const start = vertices.get(edge.startVertexId);
+    const end = vertices.get(edge.endVertexId);
+    if (!start || !end) return [];
+
+    return [{
+      id: edge.id,
+      startPoint: { x: start.x, y: start.y },
+      endPoint: { x: end.x, y: end.y },
+      length: edge.length,
+      kind: edge.kind,
+      manualLength: edge.manualLength,
+      bearing: edge.bearing
+    }];
+  });
+}
+
+/**
+ * The same edge run the other way, with its bearing turned around
+ */
+function reverseEdge(edge: Edge): Edge {
+  return {
+    ...edge,
+    startVertexId: edge.endVertexId,
+    endVertexId: edge.startVertexId,
+    bearing: edge.bearing === undefined ? undefined : (edge.bearing + 180) % 360
+  };
+}
+
+/**
+ * Resolve the edges of a ring into boundary lines running head to tail,
+ * followed by its diagonals. Edges shared with a neighbour are flipped where
+ * needed, since they are stored in the neighbour's direction.
+ */
+export function resolveRingLines(graph: PlotGraph, edgeIds: number[]): Line[] {
+  const edgesById = new Map(graph.edges.map(edge => [edge.id, edge]));
+  const ringEdges = edgeIds.flatMap(edgeId => edgesById.get(edgeId) ?? []);
+  const remaining = ringEdges.filter(edge => edge.kind !== "diagonal");
+  const ring: Edge[] = [];
+
+  while (remaining.length > 0) {
+    const previous = ring[ring.length - 1];
+    let index = previous
+      ? remaining.findIndex(edge => edge.startVertexId === previous.endVertexId || edge.endVertexId === previous.endVertexId)
+      : 0;
+
+    // A gap in the boundary; carry on from the next edge as drawn
+    if (index === -1) index = 0;
+
+    const [edge] = remaining.splice(index, 1);
+    const flipped = previous && edge.endVertexId === previous.endVertexId && edge.startVertexId !== previous.endVertexId;
+    ring.push(flipped ? reverseEdge(edge) : edge);
+  }
+
+  const diagonals = ringEdges.filter(edge => edge.kind === "diagonal");
+  return resolveLines({ ...graph, edges: [...ring, ...diagonals] });
+}
+
+/**
+ * Resolve the outer boundary of a parcel into lines
+ */
+export function resolveParcelLines(graph: PlotGraph, parcel: Parcel): Line[] {
+  return resolveRingLines(graph, parcel.edgeIds);
+}
+
+/**
+ * Ids of the edges around a parcel's boundary, or around one of its holes
+ */
+export function getRingEdgeIds(graph: PlotGraph, parcelId: number, holeId: number | null): number[] {
+  const parcel = graph.parcels.find(parcel => parcel.id === parcelId);
+  if (!parcel) return [];
+  if (holeId === null) return parcel.edgeIds;
+  return parcel.holes.find(hole => hole.id === holeId)?.edgeIds ?? [];
+}
+
+/**
+ * Ids of the edges a parcel uses, on its boundary and around its holes
+ */
+export function getParcelEdgeIds(parcel: Parcel): number[] {
+  return [...parcel.edgeIds, ...parcel.holes.flatMap(hole => hole.edgeIds)];
+}
+
+/**
+ * Build a graph from independent lines, joining line ends that meet
+ * at the same corner into a single shared vertex
+ */
+export function linesToGraph(lines: Line[]): PlotGraph {
+  const parcel = createParcel([]);
+  const graph: PlotGraph = { vertices: [], edges: [], parcels: [parcel] };
+
+  const findOrAddVertex = (point: Point): number => {
+    const existing = graph.vertices.find(vertex =>
+      Math.hypot(vertex.x - point.x, vertex.y - point.y) < VERTEX_MERGE_DISTANCE
+    );
+    if (existing) return existing.id;
+
+    const id = graph.vertices.length + 1;
+    graph.vertices.push({ id, x: point.x, y: point.y });
+    return id;
+  };
+
+  for (const line of lines) {
+    graph.edges.push({
+      id: line.id,
+      startVertexId: findOrAddVertex(line.startPoint),
+      endVertexId: findOrAddVertex(line.endPoint),
+      length: line.length,
+      kind: line.kind,
+      manualLength: line.manualLength,
+      bearing: line.bearing
+    });
+    parcel.edgeIds.push(line.id);
+  }
+
+  return graph;
+}
+
+/**
+ * Add an edge to a parcel's boundary, or to one of its holes, unless it is
+ * already part of it
+ */
+export function addEdgeToParcel(graph: PlotGraph, parcelId: number, edgeId: number, holeId: number | null = null): PlotGraph {
+  const addTo = <T extends { edgeIds: number[] }>(ring: T): T =>
+    ring.edgeIds.includes(edgeId) ? ring : { ...ring, edgeIds: [...ring.edgeIds, edgeId] };
+
+  return {
+    ...graph,
+    parcels: graph.parcels.map(parcel => {
+      if (parcel.id !== parcelId) return parcel;
+      if (holeId === null) return addTo(parcel);
+
+      return {
+        ...parcel,
+        holes: parcel.holes.map(hole => hole.id === holeId ? addTo(hole) : hole)
+      };
+    })
+  };
+}
+
+/**
+ * Add a closed ring through the given corners to a parcel's boundary, or to
+ * one of its holes. Each edge keeps the given length as if typed in, and
+ * the given bearing if any, running from its corner to the next. Corners
+ * and edges already in the graph at the same place, such as the boundary a
+ * neighbouring parcel shares, are reused.
+ */
+export function addRingToParcel(
+  graph: PlotGraph,
+  parcelId: number,
+  holeId: number | null,
+  corners: Point[],
+  lengths: number[],
+  bearings?: number[]
+): PlotGraph {
+  let current = graph;
+
+  const vertexIds = corners.map(corner => {
+    const existing = current.vertices.find(vertex => vertex.x === corner.x && vertex.y === corner.y);
+    if (existing) return existing.id;
+
+    const vertex = { id: nextId(current.vertices), x: corner.x, y: corner.y };
+    current = { ...current, vertices: [...current.vertices, vertex] };
+    return vertex.id;
+  });
+
+  vertexIds.forEach((startVertexId, i) => {
+    const endVertexId = vertexIds[(i + 1) % vertexIds.length];
+    const existing = current.edges.find(edge =>
+      edge.kind === "boundary" && (
+        (edge.startVertexId === startVertexId && edge.endVertexId === endVertexId) ||
+        (edge.startVertexId === endVertexId && edge.endVertexId === startVertexId)
+      )
+    );
+
+    if (existing) {
+      current = addEdgeToParcel(current, parcelId, existing.id, holeId);
+      return;
+    }
+
+    const edge: Edge = {
+      id: nextId(current.edges),
+      startVertexId,
+      endVertexId,
+      length: lengths[i],
+      kind: "boundary",
+      manualLength: true,
+      bearing: bearings?.[i]
+    };
+    current = addEdgeToParcel({ ...current, edges: [...current.edges, edge] }, parcelId, edge.id, holeId);
+  });
+
+  return current;
+}
+
+/**
+ * Move a corner to a new place. The edges that meet there no longer run
+ * along the bearing they were entered with, so they drop it and follow
+ * the drawing like any other edge.
+ */
+export function moveVertex(graph: PlotGraph, vertexId: number, point: Point): PlotGraph {
+  return {
+    ...graph,
+    vertices: graph.vertices.map(vertex =>
+      vertex.id === vertexId ? { ...vertex, x: point.x, y: point.y } : vertex
+    ),
+    edges: graph.edges.map(edge => {
+      if (edge.bearing === undefined || (edge.startVertexId !== vertexId && edge.endVertexId !== vertexId)) {
+        return edge;
+      }
+
+      const { bearing, ...drawnEdge } = edge;
+      return drawnEdge;
+    })
+  };
+}
+
+/**
+ * Remove an edge from every parcel, along with any vertex no other edge
+ * uses any more
+ */
+export function removeEdge(graph: PlotGraph, edgeId: number): PlotGraph {
+  const edges = graph.edges.filter(edge => edge.id !== edgeId);
+  const usedVertexIds = new Set(edges.flatMap(edge => [edge.startVertexId, edge.endVertexId]));
+
+  return {
+    vertices: graph.vertices.filter(vertex => usedVertexIds.has(vertex.id)),
+    edges,
+    parcels: graph.parcels.map(parcel => ({
+      ...parcel,
+      edgeIds: parcel.edgeIds.filter(id => id !== edgeId),
+      holes: parcel.holes.map(hole => ({
+        ...hole,
+        edgeIds: hole.edgeIds.filter(id => id !== edgeId)
+      }))
+    }))
+  };
+}
+
+/**
+ * Remove the given edges unless a parcel or hole still uses them
+ */
+function removeUnusedEdges(graph: PlotGraph, edgeIds: number[]): PlotGraph {
+  const usedEdgeIds = new Set(graph.parcels.flatMap(getParcelEdgeIds));
+
+  return edgeIds
+    .filter(edgeId => !usedEdgeIds.has(edgeId))
+    .reduce(removeEdge, graph);
+}
+
+/**
+ * Remove a parcel together with the edges no other parcel shares
+ */
+export function removeParcel(graph: PlotGraph, parcelId: number): PlotGraph {
+  const parcel = graph.parcels.find(candidate => candidate.id === parcelId);
+  if (!parcel) return graph;
+
+  const others = graph.parcels.filter(candidate => candidate.id !== parcelId);
+  return removeUnusedEdges({ ...graph, parcels: others }, getParcelEdgeIds(parcel));
+}
+
+/**
+ * Remove a hole from a parcel together with the edges nothing else uses
+ */
+export function removeHole(graph: PlotGraph, parcelId: number, holeId: number): PlotGraph {
+  const parcel = graph.parcels.find(candidate => candidate.id === parcelId);
+  const hole = parcel?.holes.find(candidate => candidate.id === holeId);
+  if (!parcel || !hole) return graph;
+
+  return removeUnusedEdges({
+    ...graph,
+    parcels: graph.parcels.map(candidate =>
+      candidate.id === parcelId
+        ? { ...candidate, holes: candidate.holes.filter(other => other.id !== holeId) }
+        : candidate
+    )
+  }, hole.edgeIds);
+}
+
+/**
+ * Next free id for a list of vertices or edges
+ */
+export function nextId(items: { id: number }[]): number {
+  return items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+}
+
+/**
+ * Migrate measurements saved as independent lines to the vertex graph
+ */
+export function migrateLegacyMeasurements(legacy: LegacyMeasurements): Measurements {
+  return {
+    ...linesToGraph(legacy.lines),
+    area: legacy.area,
+    calibration: legacy.calibration
+  };
+}
+
+/**
+ * Migrate a single-parcel graph to a project holding that one parcel
+ */
+export function migrateSingleParcelMeasurements(single: SingleParcelMeasurements): Measurements {
+  const parcel = createParcel([]);
+
+  return {
+    ...single,
+    parcels: [{ ...parcel, edgeIds: single.edges.map(edge => edge.id) }]
+  };
+}
+
+/**
+ * Parse stored or submitted measurements in the current shape or any
+ * earlier one, always returning the current shape
+ */
+export function parseMeasurements(data: unknown): Measurements {
+  const legacy = legacyMeasurementsSchema.safeParse(data);
+  if (legacy.success) {
+    return migrateLegacyMeasurements(legacy.data);
+  }
+
+  const current = measurementsSchema.safeParse(data);
+  if (current.success) {
+    return current.data;
+  }
+
+  const single = singleParcelMeasurementsSchema.safeParse(data);
+  if (single.success) {
+    return migrateSingleParcelMeasurements(single.data);
+  }
+
+  // Report the problems against the current shape
+  throw current.error;
+}
@@ -0,0 +1,182 @@
+import { type Point, type GeoPoint } from "./schema";
+
+// WGS84 ellipsoid
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const ECCENTRICITY_SQUARED = FLATTENING * (2 - FLATTENING);
+const ECCENTRICITY = Math.sqrt(ECCENTRICITY_SQUARED);
+
+// Universal Transverse Mercator
+const SCALE_FACTOR = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+// Krüger series coefficients for the third flattening, to third order,
+// which is accurate to well under a millimetre within a zone
+const N = FLATTENING / (2 - FLATTENING);
+const RECTIFYING_RADIUS = SEMI_MAJOR_AXIS / (1 + N) * (1 + N ** 2 / 4 + N ** 4 / 64);
+const ALPHA = [
+  N / 2 - 2 * N ** 2 / 3 + 5 * N ** 3 / 16,
+  13 * N ** 2 / 48 - 3 * N ** 3 / 5,
+  61 * N ** 3 / 240
+];
+const BETA = [
+  N / 2 - 2 * N ** 2 / 3 + 37 * N ** 3 / 96,
+  N ** 2 / 48 + N ** 3 / 15,
+  17 * N ** 3 / 480
+];
+const DELTA = [
+  2 * N - 2 * N ** 2 / 3 - 2 * N ** 3,
+  7 * N ** 2 / 3 - 8 * N ** 3 / 5,
+  56 * N ** 3 / 15
+];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * One of the sixty 6° wide UTM zones, north or south of the equator
+ */
+export interface UtmZone {
+  zone: number;
+  hemisphere: "N" | "S";
+}
+
+/**
+ * The standard UTM zone a place falls in
+ */
+export function getUtmZone(point: GeoPoint): UtmZone {
+  const zone = Math.min(Math.floor((point.lon + 180) / 6) + 1, 60);
+  return { zone, hemisphere: point.lat >= 0 ? "N" : "S" };
+}
+
+/**
+ * The EPSG code of a UTM zone on WGS84, e.g. EPSG:32748 for zone 48 south
+ */
+export function getUtmEpsgCode(zone: UtmZone): number {
+  return (zone.hemisphere === "N" ? 32600 : 32700) + zone.zone;
+}
+
+export function formatUtmZone(zone: UtmZone): string {
+  return `UTM ${zone.zone}${zone.hemisphere}`;
+}
+
+/**
+ * Longitude of the middle of a UTM zone, in degrees
+ */
+export function getCentralMeridian(zone: UtmZone): number {
+  return zone.zone * 6 - 183;
+}
+
+/**
+ * The ESRI well-known text of a UTM zone on WGS84, as written to .prj files
+ */
+export function getUtmWkt(zone: UtmZone): string {
+  const name = `WGS_1984_UTM_Zone_${zone.zone}${zone.hemisphere}`;
+  return `PROJCS["${name}",` +
+    `GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",${SEMI_MAJOR_AXIS}.0,${1 / FLATTENING}]],` +
+    `PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],` +
+    `PROJECTION["Transverse_Mercator"],` +
+    `PARAMETER["False_Easting",${FALSE_EASTING}.0],` +
+    `PARAMETER["False_Northing",${zone.hemisphere === "S" ? FALSE_NORTHING_SOUTH : 0}.0],` +
+    `PARAMETER["Central_Meridian",${getCentralMeridian(zone)}.0],` +
+    `PARAMETER["Scale_Factor",${SCALE_FACTOR}],` +
+    `PARAMETER["Latitude_Of_Origin",0.0],` +
+    `UNIT["Meter",1.0]]`;
+}
+
+const centralMeridian = (zone: UtmZone) => toRadians(getCentralMeridian(zone));
+
+/**
+ * Project a place into a UTM zone, as easting (x) and northing (y) in meters
+ */
+export function toUtm(point: GeoPoint, zone: UtmZone): Point {
+  const lat = toRadians(point.lat);
+  const lon = toRadians(point.lon) - centralMeridian(zone);
+
+  const conformal = 2 * Math.sqrt(N) / (1 + N);
+  const t = Math.sinh(Math.atanh(Math.sin(lat)) - conformal * Math.atanh(conformal * Math.sin(lat)));
+  const xi = Math.atan2(t, Math.cos(lon));
+  const eta = Math.atanh(Math.sin(lon) / Math.sqrt(1 + t * t));
+
+  let easting = eta;
+  let northing = xi;
+  ALPHA.forEach((alpha, i) => {
+    const j = 2 * (i + 1);
+    easting += alpha * Math.cos(j * xi) * Math.sinh(j * eta);
+    northing += alpha * Math.sin(j * xi) * Math.cosh(j * eta);
+  });
+
+  return {
+    x: FALSE_EASTING + SCALE_FACTOR * RECTIFYING_RADIUS * easting,
+    y: (zone.hemisphere === "S" ? FALSE_NORTHING_SOUTH : 0) + SCALE_FACTOR * RECTIFYING_RADIUS * northing
+  };
+}
+
+/**
+ * The place at an easting (x) and northing (y) in a UTM zone
+ */
+export function fromUtm(point: Point, zone: UtmZone): GeoPoint {
+  const northing = point.y - (zone.hemisphere === "S" ? FALSE_NORTHING_SOUTH : 0);
+  const xi = northing / (SCALE_FACTOR * RECTIFYING_RADIUS);
+  const eta = (point.x - FALSE_EASTING) / (SCALE_FACTOR * RECTIFYING_RADIUS);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  BETA.forEach((beta, i) => {
+    const j = 2 * (i + 1);
+    xiPrime -= beta * Math.sin(j * xi) * Math.cosh(j * eta);
+    etaPrime -= beta * Math.cos(j * xi) * Math.sinh(j * eta);
+  });
+
+  const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+  let lat = chi;
+  DELTA.forEach((delta, i) => {
+    lat += delta * Math.sin(2 * (i + 1) * chi);
+  });
+
+  return {
+    lat: toDegrees(lat),
+    lon: toDegrees(centralMeridian(zone) + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)))
+  };
+}
+
+// The q function of the authalic latitude (Snyder, eq. 3-12)
+function authalicQ(sinLat: number): number {
+  const eSinLat = ECCENTRICITY * sinLat;
+  return (1 - ECCENTRICITY_SQUARED) * (
+    sinLat / (1 - eSinLat * eSinLat) -
+    Math.log((1 - eSinLat) / (1 + eSinLat)) / (2 * ECCENTRICITY)
+  );
+}
+
+const POLAR_Q = authalicQ(1);
+// Radius of the sphere with the same surface area as the ellipsoid
+const AUTHALIC_RADIUS = SEMI_MAJOR_AXIS * Math.sqrt(POLAR_Q / 2);
+
+/**
+ * Area in square meters of a ring of places on the WGS84 ellipsoid. The
+ * ring is mapped to the sphere of equal surface area through the authalic
+ * latitude, which keeps areas exactly, and its spherical excess taken.
+ * Unlike an area on a UTM grid it has no scale distortion, so it serves as
+ * a check on the projected area.
+ */
+export function calculateGeodesicArea(ring: GeoPoint[]): number {
+  if (ring.length < 3) return 0;
+
+  const authalic = ring.map(point => ({
+    beta: Math.asin(Math.max(-1, Math.min(1, authalicQ(Math.sin(toRadians(point.lat))) / POLAR_Q))),
+    lon: toRadians(point.lon)
+  }));
+
+  const excess = authalic.reduce((sum, point, i) => {
+    const next = authalic[(i + 1) % authalic.length];
+    // Longitude difference wrapped across the antimeridian
+    const deltaLon = Math.atan2(Math.sin(next.lon - point.lon), Math.cos(next.lon - point.lon));
+    const t1 = Math.tan(point.beta / 2);
+    const t2 = Math.tan(next.beta / 2);
+    return sum + 2 * Math.atan2(Math.tan(deltaLon / 2) * (t1 + t2), 1 + t1 * t2);
+  }, 0);
+
+  return Math.abs(excess) * AUTHALIC_RADIUS ** 2;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, unique, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,39 +17,268 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Areas are stored as exact decimals of square meters, to a ten-thousandth;
+// the driver returns them as strings, which storage turns back into numbers
+export const AREA_DECIMALS = 4;
+const areaColumn = () => numeric("area", { precision: 16, scale: AREA_DECIMALS }).notNull();
+
 // LandPlot schema for storing measurement data
 export const landPlots = pgTable("land_plots", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   name: text("name").notNull(),
   measurements: jsonb("measurements").notNull(),
-  area: integer("area").notNull(),
+  area: areaColumn(),
   createdAt: text("created_at").notNull(),
 });
 
-export const insertLandPlotSchema = createInsertSchema(landPlots).omit({
+export const insertLandPlotSchema = createInsertSchema(landPlots, {
+  area: z.number(),
+}).omit({
   id: true,
 });
 
+// What a client may change on a saved plot; any other field is rejected.
+// The area follows from the measurements, so it cannot change on its own.
+export const updateLandPlotSchema = insertLandPlotSchema.pick({
+  name: true,
+  measurements: true,
+  area: true
+}).partial().strict().refine(
+  update => update.area === undefined || update.measurements !== undefined,
+  { message: "Area can only be updated together with the measurements", path: ["area"] }
+);
+
+// Every saved version of a plot's measurements, so a bad edit can be undone
+export const plotRevisions = pgTable("plot_revisions", {
+  id: serial("id").primaryKey(),
+  landPlotId: integer("land_plot_id").notNull().references(() => landPlots.id, { onDelete: "cascade" }),
+  // Who saved this version
+  userId: integer("user_id").references(() => users.id),
+  measurements: jsonb("measurements").notNull(),
+  area: areaColumn(),
+  createdAt: text("created_at").notNull(),
+});
+
+// Editors may change a shared plot; viewers may only open it
+export const shareRoleSchema = z.enum(["editor", "viewer"]);
+
+// Plots their owner has shared with other users
+export const plotShares = pgTable("plot_shares", {
+  id: serial("id").primaryKey(),
+  landPlotId: integer("land_plot_id").notNull().references(() => landPlots.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role", { enum: shareRoleSchema.options }).notNull(),
+}, (table) => [
+  unique().on(table.landPlotId, table.userId),
+]);
+
+export const insertPlotShareSchema = createInsertSchema(plotShares).omit({
+  id: true,
+});
+
+// Who to share a plot with, as sent by the owner
+export const shareRequestSchema = z.object({
+  username: z.string().min(1),
+  role: shareRoleSchema,
+});
+
+// Unguessable links that let anyone view a plot without an account, until
+// the owner revokes them or they expire
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  landPlotId: integer("land_plot_id").notNull().references(() => landPlots.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdAt: text("created_at").notNull(),
+  expiresAt: text("expires_at"),
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+});
+
+// A new link as requested by the owner, optionally expiring
+export const shareLinkRequestSchema = z.object({
+  expiresAt: z.string().datetime().nullable().optional(),
+});
+
 export const pointSchema = z.object({
   x: z.number(),
   y: z.number()
 });
 
+// Boundary lines form the outline of the plot; diagonals are interior tie
+// lines measured between two corners to fix the shape of the polygon
+export const lineKindSchema = z.enum(["boundary", "diagonal"]);
+
+// A line with its own end points - the shape measurements were saved in
+// before corners were shared, and the resolved form the geometry works on
 export const lineSchema = z.object({
   id: z.number(),
   startPoint: pointSchema,
   endPoint: pointSchema,
-  length: z.number()
+  length: z.number(),
+  kind: lineKindSchema.default("boundary"),
+  // Set when the length was typed in rather than derived from the calibration
+  manualLength: z.boolean().default(false),
+  // Azimuth in degrees clockwise from north, set when the line was entered
+  // as a bearing; a traverse then follows it rather than the drawing
+  bearing: z.number().min(0).lt(360).optional()
+});
+
+// Corners are shared between the edges that meet there, so moving a corner
+// moves every edge that touches it
+export const vertexSchema = pointSchema.extend({
+  id: z.number()
+});
+
+export const edgeSchema = z.object({
+  id: z.number(),
+  startVertexId: z.number(),
+  endVertexId: z.number(),
+  length: z.number(),
+  kind: lineKindSchema.default("boundary"),
+  manualLength: z.boolean().default(false),
+  bearing: z.number().min(0).lt(360).optional()
+});
+
+// An inner ring inside a parcel - a pond, building or easement whose area
+// is excluded from the parcel
+export const holeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  edgeIds: z.array(z.number())
+});
+
+// A named piece of land bounded by edges of the project graph. Neighbouring
+// parcels list the same edge id for the boundary they share.
+export const parcelSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  edgeIds: z.array(z.number()),
+  holes: z.array(holeSchema).default([])
+});
+
+const plotGraphShape = {
+  vertices: z.array(vertexSchema),
+  edges: z.array(edgeSchema),
+  parcels: z.array(parcelSchema)
+};
+
+// Edges and parcels may only reference vertices and edges of the same graph
+function hasValidReferences(graph: { vertices: Vertex[]; edges: Edge[]; parcels?: Parcel[] }): boolean {
+  const vertexIds = new Set(graph.vertices.map(vertex => vertex.id));
+  const edgeIds = new Set(graph.edges.map(edge => edge.id));
+
+  return graph.edges.every(edge => vertexIds.has(edge.startVertexId) && vertexIds.has(edge.endVertexId)) &&
+    (graph.parcels ?? []).every(parcel =>
+      parcel.edgeIds.every(edgeId => edgeIds.has(edgeId)) &&
+      parcel.holes.every(hole => hole.edgeIds.every(edgeId => edgeIds.has(edgeId)))
+    );
+}
+
+const danglingReferenceError = { message: "Edges and parcels must reference existing vertices and edges" };
+
+export const plotGraphSchema = z.object(plotGraphShape).refine(hasValidReferences, danglingReferenceError);
+
+// A reference line drawn on the background image with its true length in
+// meters, which fixes how many meters one canvas pixel represents
+export const calibrationSchema = z.object({
+  startPoint: pointSchema,
+  endPoint: pointSchema,
+  length: z.number().positive()
+});
+
+// Units the plot is entered and reported in. Everything is stored in meters
+// and square meters; these only change how values are shown and typed.
+export const lengthUnitSchema = z.enum(["m", "ft", "yd", "ch"]);
+export const areaUnitSchema = z.enum(["m2", "ha", "acre", "ft2", "are", "tumbak", "bata"]);
+
+export const unitsSchema = z.object({
+  length: lengthUnitSchema,
+  area: areaUnitSchema
+});
+
+// A place on the earth in WGS84 degrees
+export const geoPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180)
+});
+
+// A vertex pinned to where it lies on the earth
+export const controlPointSchema = geoPointSchema.extend({
+  vertexId: z.number()
+});
+
+// Where the drawing lies on the earth. The control points fix the position,
+// rotation and scale of the canvas in the local UTM zone.
+export const georeferenceSchema = z.object({
+  crs: z.literal("EPSG:4326"),
+  controlPoints: z.array(controlPointSchema)
 });
 
 export const measurementsSchema = z.object({
+  ...plotGraphShape,
+  area: z.number(),
+  calibration: calibrationSchema.optional(),
+  units: unitsSchema.optional(),
+  georeference: georeferenceSchema.optional()
+}).refine(hasValidReferences, danglingReferenceError);
+
+// Measurements saved before a project could hold several parcels
+export const singleParcelMeasurementsSchema = z.object({
+  vertices: z.array(vertexSchema),
+  edges: z.array(edgeSchema),
+  area: z.number(),
+  calibration: calibrationSchema.optional()
+}).refine(hasValidReferences, danglingReferenceError);
+
+// Measurements saved before the vertex graph was introduced
+export const legacyMeasurementsSchema = z.object({
   lines: z.array(lineSchema),
-  area: z.number()
+  area: z.number(),
+  calibration: calibrationSchema.optional()
 });
 
 export type InsertLandPlot = z.infer<typeof insertLandPlotSchema>;
-export type LandPlot = typeof landPlots.$inferSelect;
+export type UpdateLandPlot = z.infer<typeof updateLandPlotSchema>;
+// Rows as the database driver reads and writes them, with areas as strings
+export type LandPlotRow = typeof landPlots.$inferSelect;
+export type PlotRevisionRow = typeof plotRevisions.$inferSelect;
+export type LandPlot = Omit<LandPlotRow, "area"> & { area: number };
+// Revisions are only ever written by the server, so there is no insert schema
+export type InsertPlotRevision = Omit<typeof plotRevisions.$inferInsert, "area"> & { area: number };
+export type PlotRevision = Omit<PlotRevisionRow, "area"> & { area: number };
+// A revision as listed, without its measurements but with who saved it
+export type PlotRevisionSummary = Omit<PlotRevision, "measurements"> & { username: string | null };
+export type ShareRole = z.infer<typeof shareRoleSchema>;
+export type PlotRole = "owner" | ShareRole;
+// A plot as listed or opened by a user, with what that user may do with it
+export type AccessibleLandPlot = LandPlot & { role: PlotRole };
+export type InsertPlotShare = z.infer<typeof insertPlotShareSchema>;
+export type PlotShare = typeof plotShares.$inferSelect;
+// A share as shown to the plot's owner
+export type PlotShareWithUser = PlotShare & { username: string };
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+// What a public share link shows; never who owns the plot
+export type PublicLandPlot = Pick<LandPlot, "name" | "measurements" | "area" | "createdAt">;
 export type Point = z.infer<typeof pointSchema>;
+export type LineKind = z.infer<typeof lineKindSchema>;
 export type Line = z.infer<typeof lineSchema>;
+export type Calibration = z.infer<typeof calibrationSchema>;
+export type LengthUnit = z.infer<typeof lengthUnitSchema>;
+export type AreaUnit = z.infer<typeof areaUnitSchema>;
+export type Units = z.infer<typeof unitsSchema>;
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+export type ControlPoint = z.infer<typeof controlPointSchema>;
+export type Georeference = z.infer<typeof georeferenceSchema>;
+export type Vertex = z.infer<typeof vertexSchema>;
+export type Edge = z.infer<typeof edgeSchema>;
+export type Hole = z.infer<typeof holeSchema>;
+export type Parcel = z.infer<typeof parcelSchema>;
+export type PlotGraph = z.infer<typeof plotGraphSchema>;
 export type Measurements = z.infer<typeof measurementsSchema>;
+export type SingleParcelMeasurements = z.infer<typeof singleParcelMeasurementsSchema>;
+export type LegacyMeasurements = z.infer<typeof legacyMeasurementsSchema>;
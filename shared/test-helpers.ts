@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import type { Line, LineKind, Point } from "./schema";
+
+// Helpers shared by the tests; nothing outside a test imports this
+
+export const assertClose = (actual: number, expected: number, tolerance = 1e-9) => {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected}, got ${actual}`);
+};
+
+let nextLineId = 1;
+
+/**
+ * A line between two canvas points, measured as given
+ */
+export const line = (startPoint: Point, endPoint: Point, length: number, kind: LineKind = "boundary"): Line => ({
+  id: nextLineId++,
+  startPoint,
+  endPoint,
+  length,
+  kind,
+  manualLength: true
+});
+
+/**
+ * Boundary lines around canvas corners in order, each measured as given
+ */
+export const ring = (corners: Point[], lengths: number[]): Line[] =>
+  corners.map((corner, i) => line(corner, corners[(i + 1) % corners.length], lengths[i]));
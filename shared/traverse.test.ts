@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Line, Point } from "./schema";
+import { adjustTraverse, calculateTraverseClosure, formatPrecisionRatio } from "./traverse";
+import { assertClose, ring } from "./test-helpers";
+
+// A 100 m square drawn at 1 pixel per meter, walked north, east, south and
+// west; canvas y points down, so north is towards smaller y
+const square: Point[] = [{ x: 0, y: 100 }, { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }];
+
+describe("calculateTraverseClosure", () => {
+  it("closes exactly when the lengths match the drawing", () => {
+    const closure = calculateTraverseClosure(ring(square, [100, 100, 100, 100]));
+
+    assertClose(closure.linearMisclosure, 0);
+    assert.equal(closure.precisionRatio, Infinity);
+    assert.equal(formatPrecisionRatio(closure.precisionRatio), "1:∞");
+  });
+
+  it("reports the misclosure as eastings and northings", () => {
+    // The north leg measured a metre long leaves the traverse 1 m north
+    const closure = calculateTraverseClosure(ring(square, [101, 100, 100, 100]));
+
+    assertClose(closure.misclosureX, 0);
+    assertClose(closure.misclosureY, 1);
+    assertClose(closure.linearMisclosure, 1);
+    assert.equal(closure.perimeter, 401);
+    assertClose(closure.precisionRatio, 401);
+  });
+});
+
+describe("lines entered as bearings", () => {
+  // Azimuths of the square's legs: north, east, south and west
+  const withBearings = (lines: Line[], bearings: number[]) =>
+    lines.map((line, i) => ({ ...line, bearing: bearings[i] }));
+
+  it("follow their bearings rather than the closed drawing", () => {
+    // The closing leg was entered due north instead of due west
+    const lines = withBearings(ring(square, [100, 100, 100, 100]), [0, 90, 180, 0]);
+    const closure = calculateTraverseClosure(lines);
+
+    assertClose(closure.misclosureX, 100);
+    assertClose(closure.misclosureY, 100);
+    assertClose(closure.linearMisclosure, Math.hypot(100, 100));
+  });
+
+  it("measure a wrong bearing as a two-dimensional gap", () => {
+    const lines = withBearings(ring(square, [100, 100, 100, 100]), [0, 90, 175, 270]);
+    const closure = calculateTraverseClosure(lines);
+
+    const radians = 5 * Math.PI / 180;
+    assertClose(closure.misclosureX, 100 * Math.sin(radians));
+    assertClose(closure.misclosureY, 100 - 100 * Math.cos(radians));
+  });
+});
+
+describe("adjustTraverse", () => {
+  it("walks the corners north-up from the origin", () => {
+    const traverse = adjustTraverse(ring(square, [100, 100, 100, 100]), "compass")!;
+
+    const rounded = traverse.vertices.map(vertex => ({ x: Math.round(vertex.x), y: Math.round(vertex.y) }));
+    assert.deepEqual(rounded, [{ x: 0, y: 0 }, { x: 0, y: 100 }, { x: 100, y: 100 }, { x: 100, y: 0 }]);
+  });
+
+  it("spreads the misclosure by leg length under the compass rule", () => {
+    const traverse = adjustTraverse(ring(square, [101, 100, 100, 100]), "compass")!;
+
+    // The west leg takes back 100/401 of the metre, leaving its start that
+    // far north of the origin
+    const last = traverse.adjustedVertices[3];
+    assertClose(last.x, 100);
+    assertClose(last.y, 100 / 401);
+  });
+
+  it("spreads the misclosure by northing under the transit rule", () => {
+    const traverse = adjustTraverse(ring(square, [101, 100, 100, 100]), "transit")!;
+
+    // The east and west legs have no northing, so take none of it
+    const last = traverse.adjustedVertices[3];
+    assertClose(last.x, 100);
+    assertClose(last.y, 0);
+    assertClose(traverse.adjustedArea, 100 * (101 - 101 / 201));
+  });
+
+  it("needs three legs to enclose an area", () => {
+    assert.equal(adjustTraverse(ring(square.slice(0, 2), [100, 100]), "compass"), null);
+  });
+});
@@ -0,0 +1,130 @@
+import { type Point, type Line } from "./schema";
+import { type TraverseLeg, calculatePolygonArea, getBoundaryLines, getTraverseLegs } from "./geometry";
+
+// How the misclosure of a traverse is spread over its legs: the compass
+// (Bowditch) rule in proportion to leg length, the transit rule in
+// proportion to each leg's movement along x and along y
+export type TraverseAdjustmentMethod = "compass" | "transit";
+
+/**
+ * How far a traverse misses its starting point
+ */
+export interface TraverseClosure {
+  // Where the traverse ends relative to where it started, east and north
+  misclosureX: number;
+  misclosureY: number;
+  linearMisclosure: number;
+  perimeter: number;
+  // Perimeter divided by the linear misclosure, so 5000 reads as 1:5000;
+  // Infinity for a traverse that closes exactly
+  precisionRatio: number;
+}
+
+/**
+ * A traverse with its misclosure distributed over the legs
+ */
+export interface AdjustedTraverse {
+  closure: TraverseClosure;
+  // Corners as walked from the measurements, starting at the origin, as
+  // eastings (x) and northings (y)
+  vertices: Point[];
+  adjustedVertices: Point[];
+  area: number;
+  adjustedArea: number;
+}
+
+/**
+ * The boundary legs of a ring with dy as a northing. The canvas y axis
+ * points down, so it is flipped, as a traverse is worked north-up.
+ */
+function getSurveyLegs(lines: Line[]): TraverseLeg[] {
+  return getTraverseLegs(getBoundaryLines(lines)).map(leg => ({ ...leg, dy: -leg.dy }));
+}
+
+/**
+ * Walk the legs from the origin, returning every corner including the end
+ */
+function walkLegs(legs: { dx: number; dy: number }[]): Point[] {
+  const points: Point[] = [{ x: 0, y: 0 }];
+  for (const leg of legs) {
+    const previous = points[points.length - 1];
+    points.push({ x: previous.x + leg.dx, y: previous.y + leg.dy });
+  }
+  return points;
+}
+
+// Misclosures below this many meters are rounding in the arithmetic
+const CLOSURE_TOLERANCE = 1e-9;
+
+/**
+ * Perimeter divided by the linear misclosure, or Infinity for a traverse
+ * that closes
+ */
+export function calculatePrecisionRatio(perimeter: number, linearMisclosure: number): number {
+  return linearMisclosure > CLOSURE_TOLERANCE ? perimeter / linearMisclosure : Infinity;
+}
+
+/**
+ * Measure the misclosure of a ring walked as a traverse
+ */
+export function calculateTraverseClosure(lines: Line[]): TraverseClosure {
+  const legs = getSurveyLegs(lines);
+  const misclosureX = legs.reduce((sum, leg) => sum + leg.dx, 0);
+  const misclosureY = legs.reduce((sum, leg) => sum + leg.dy, 0);
+  const linearMisclosure = Math.hypot(misclosureX, misclosureY);
+  const perimeter = legs.reduce((sum, leg) => sum + leg.length, 0);
+
+  return {
+    misclosureX,
+    misclosureY,
+    linearMisclosure,
+    perimeter,
+    precisionRatio: calculatePrecisionRatio(perimeter, linearMisclosure)
+  };
+}
+
+/**
+ * Distribute the misclosure of a ring over its legs so the traverse closes,
+ * returning null when there are too few legs to enclose an area
+ */
+export function adjustTraverse(lines: Line[], method: TraverseAdjustmentMethod): AdjustedTraverse | null {
+  const legs = getSurveyLegs(lines);
+  if (legs.length < 3) return null;
+
+  const closure = calculateTraverseClosure(lines);
+  const { misclosureX, misclosureY, perimeter } = closure;
+  const totalAbsX = legs.reduce((sum, leg) => sum + Math.abs(leg.dx), 0);
+  const totalAbsY = legs.reduce((sum, leg) => sum + Math.abs(leg.dy), 0);
+
+  const adjustedLegs = legs.map(leg => {
+    if (method === "compass") {
+      const share = perimeter > 0 ? leg.length / perimeter : 0;
+      return { dx: leg.dx - misclosureX * share, dy: leg.dy - misclosureY * share };
+    }
+
+    return {
+      dx: leg.dx - (totalAbsX > 0 ? misclosureX * Math.abs(leg.dx) / totalAbsX : 0),
+      dy: leg.dy - (totalAbsY > 0 ? misclosureY * Math.abs(leg.dy) / totalAbsY : 0)
+    };
+  });
+
+  // The last corner walked is the start again, or the point the traverse
+  // missed it by
+  const vertices = walkLegs(legs);
+  const adjustedVertices = walkLegs(adjustedLegs).slice(0, -1);
+
+  return {
+    closure,
+    vertices: vertices.slice(0, -1),
+    adjustedVertices,
+    area: calculatePolygonArea(vertices),
+    adjustedArea: calculatePolygonArea(adjustedVertices)
+  };
+}
+
+/**
+ * Write a precision ratio the way surveyors do, such as 1:5000
+ */
+export function formatPrecisionRatio(ratio: number): string {
+  return Number.isFinite(ratio) ? `1:${Math.round(ratio).toLocaleString()}` : "1:∞";
+}